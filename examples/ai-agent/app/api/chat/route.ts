@@ -102,31 +102,6 @@ async function sandboxListFiles(directory: string): Promise<string> {
   }
 }
 
-/**
- * Run a shell command in the sandbox.
- * This function runs inside the sandbox.
- *
- * Note: For AI-provided commands, we use exec() since the command string
- * comes at runtime. This is acceptable because the sandbox isolates execution.
- *
- * For developer-controlled commands, prefer the $ template literal:
- *   await $`git status`
- *   await $`git commit -m ${message}`  // Safe: message is a single argument
- */
-async function sandboxRunCommand(command: string): Promise<string> {
-  "use sandbox";
-  const { exec } = await import("child_process");
-  const { promisify } = await import("util");
-  const execAsync = promisify(exec);
-
-  try {
-    const { stdout, stderr } = await execAsync(command);
-    return stdout || stderr || "Command completed with no output";
-  } catch (error) {
-    return `Error executing command: ${(error as Error).message}`;
-  }
-}
-
 /**
  * Example: Safe git operations using the $ template literal.
  * Interpolated values are treated as single arguments, preventing injection.
@@ -135,8 +110,7 @@ async function sandboxGitCommit(message: string): Promise<string> {
   "use sandbox";
   try {
     await $`git add .`;
-    const result = await $`git commit -m ${message}`;
-    return result;
+    return await $`git commit -m ${message}`.text();
   } catch (error) {
     return `Git error: ${(error as Error).message}`;
   }
@@ -280,9 +254,16 @@ Always confirm with the user before making changes.`,
           log("TOOL", "runCommand called", { command, sessionId });
           const startTime = Date.now();
           try {
-            const result = await sandbox.run(sessionId, sandboxRunCommand, [
-              command,
-            ]);
+            // The command string comes from the model, so hand it to a
+            // shell; the sandbox isolates execution. No "use sandbox"
+            // function needed: shell() runs it directly.
+            const { stdout, stderr, exitCode } = await sandbox.shell(
+              sessionId
+            )`sh -c ${command}`;
+            const result =
+              exitCode === 0
+                ? stdout || stderr || "Command completed with no output"
+                : `Command exited with code ${exitCode}: ${stderr || stdout}`;
             log("TOOL", `runCommand completed in ${Date.now() - startTime}ms`, {
               command,
               result,
@@ -1,10 +1,16 @@
+"use sandbox";
+
 /**
  * Sandbox functions - these run in isolated Vercel Sandboxes.
  *
  * Kept in a separate file from workflow/step functions to avoid
- * conflicts between the two transformer systems.
+ * conflicts between the two transformer systems. The file-level directive
+ * makes every exported async function a sandbox function.
  */
 
+import fs from "fs/promises";
+import pathModule from "path";
+
 /**
  * Write content to a file in the sandbox filesystem.
  */
@@ -12,10 +18,6 @@ export async function sandboxWriteFile(
   path: string,
   content: string
 ): Promise<string> {
-  "use sandbox";
-  const fs = await import("fs/promises");
-  const pathModule = await import("path");
-
   const dir = pathModule.dirname(path);
   await fs.mkdir(dir, { recursive: true });
 
@@ -27,9 +29,6 @@ export async function sandboxWriteFile(
  * Read a file from the sandbox filesystem.
  */
 export async function sandboxReadFile(path: string): Promise<string> {
-  "use sandbox";
-  const fs = await import("fs/promises");
-
   try {
     return await fs.readFile(path, "utf-8");
   } catch (error) {
@@ -44,9 +43,6 @@ export async function sandboxReadFile(path: string): Promise<string> {
  * List files in a directory.
  */
 export async function sandboxListFiles(directory: string): Promise<string[]> {
-  "use sandbox";
-  const fs = await import("fs/promises");
-
   const entries = await fs.readdir(directory, { withFileTypes: true });
   return entries.map(
     (entry) => `${entry.isDirectory() ? "[dir]" : "[file]"} ${entry.name}`
@@ -3,8 +3,9 @@
  *
  * Pattern: workflow function -> step function -> sandbox.run()
  *
- * The sandbox functions are in a separate file (lib/sandbox-functions.ts)
- * to avoid conflicts between the workflow and sandbox transformers.
+ * The sandbox functions are in a separate "use sandbox" file
+ * (lib/sandbox-functions.ts) to avoid conflicts between the workflow and
+ * sandbox transformers.
  */
 
 import { sandbox } from "../lib/sbx";
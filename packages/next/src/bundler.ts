@@ -15,6 +15,7 @@ import {
 } from "fs";
 import { join, basename } from "path";
 import { createHash } from "crypto";
+import { packageName } from "@use-sandbox/core";
 
 // ============================================================================
 // Types
@@ -31,6 +32,16 @@ export interface BundleManifest {
   bundleFile: string;
   generatedAt: string;
   sandboxFiles: string[];
+  /** npm specs the runtime installs in the sandbox, e.g. "sharp@^0.33.0" */
+  externalDependencies: string[];
+}
+
+export interface BundleOptions {
+  /**
+   * Packages left out of the bundle and installed in the sandbox with npm
+   * instead (see SandboxBuildOptions in index.ts).
+   */
+  externalDependencies?: string[];
 }
 
 // ============================================================================
@@ -107,7 +118,9 @@ export function getSandboxFiles(): Map<string, string> {
  * 2. Scan the temp directory for ALL .sandbox.ts files when bundling
  * 3. Bundle everything we find on disk
  */
-export function generateBundleSync(): BundleResult | null {
+export function generateBundleSync(
+  options: BundleOptions = {}
+): BundleResult | null {
   const projectRoot = process.cwd();
   const tempDir = join(projectRoot, ".next", ".sandbox-temp");
   const outputDir = join(projectRoot, ".next", "static", "sandbox");
@@ -153,8 +166,13 @@ export function generateBundleSync(): BundleResult | null {
     allFilePaths.push(tempPath);
   }
 
-  // Compute hash of all content
-  const combinedContent = allContent.join("\n---\n");
+  const dependencies = resolveDependencySpecs(
+    options.externalDependencies ?? [],
+    projectRoot
+  );
+
+  // Compute hash of all content (and the dependencies, which the manifest lists)
+  const combinedContent = [...allContent, ...dependencies].join("\n---\n");
   const bundleHash = createHash("sha256")
     .update(combinedContent)
     .digest("hex")
@@ -221,7 +239,12 @@ export function generateBundleSync(): BundleResult | null {
         "react",
         "react-dom",
         "react/*",
-        // Note: @use-sandbox/core IS bundled - it provides the $ helper
+        // Note: @use-sandbox/core IS bundled - it provides $ and getRunContext
+        // Installed in the sandbox instead (native modules, binaries, ...)
+        ...dependencies.flatMap((spec) => {
+          const name = packageName(spec);
+          return [name, `${name}/*`];
+        }),
       ],
     });
   } catch (err) {
@@ -235,6 +258,7 @@ export function generateBundleSync(): BundleResult | null {
     bundleFile: bundleFilename,
     generatedAt: new Date().toISOString(),
     sandboxFiles: allFilePaths,
+    externalDependencies: dependencies,
   };
 
   const manifestPath = join(outputDir, "manifest.json");
@@ -250,3 +274,34 @@ export function generateBundleSync(): BundleResult | null {
     sandboxFiles: allFilePaths,
   };
 }
+
+// ============================================================================
+// External dependencies
+// ============================================================================
+
+/**
+ * Pin names without a version to the range in the app's package.json, so
+ * the sandbox gets the same version the app was built against.
+ */
+function resolveDependencySpecs(
+  dependencies: string[],
+  projectRoot: string
+): string[] {
+  let declared: Record<string, string> = {};
+  try {
+    const pkg = JSON.parse(
+      readFileSync(join(projectRoot, "package.json"), "utf-8")
+    );
+    declared = { ...pkg.devDependencies, ...pkg.dependencies };
+  } catch {
+    // No package.json; unpinned names install the latest version
+  }
+
+  return dependencies
+    .map((spec) =>
+      packageName(spec) === spec && declared[spec]
+        ? `${spec}@${declared[spec]}`
+        : spec
+    )
+    .sort();
+}
@@ -1,5 +1,16 @@
 import type { NextConfig } from "next";
 
+export interface SandboxBuildOptions {
+  /**
+   * Packages to leave out of the sandbox bundle and install in the sandbox
+   * with npm instead, for native modules or packages with binaries that
+   * can't be bundled (e.g. `sharp`, `playwright`). A bare name is pinned to
+   * the range in your package.json; add a version (`"sharp@0.33.5"`) to
+   * choose another one.
+   */
+  externalDependencies?: string[];
+}
+
 /**
  * Wrap your Next.js config with withSandbox to enable "use sandbox" directive.
  *
@@ -13,6 +24,11 @@ import type { NextConfig } from "next";
  * export default withSandbox({
  *   // your next config
  * });
+ *
+ * // Install packages that can't be bundled in the sandbox instead
+ * export default withSandbox(nextConfig, {
+ *   externalDependencies: ['sharp'],
+ * });
  * ```
  */
 export function withSandbox(
@@ -21,13 +37,18 @@ export function withSandbox(
     | ((
         phase: string,
         ctx: { defaultConfig: NextConfig }
-      ) => Promise<NextConfig>)
+      ) => Promise<NextConfig>),
+  options: SandboxBuildOptions = {}
 ) {
   return async function buildConfig(
     phase: string,
     ctx: { defaultConfig: NextConfig }
   ) {
     const loaderPath = require.resolve("./loader");
+    // Plain JSON, so turbopack can pass it to loaders in worker processes
+    const loaderOptions = {
+      externalDependencies: options.externalDependencies ?? [],
+    };
 
     let nextConfig: NextConfig;
 
@@ -63,7 +84,7 @@ export function withSandbox(
       nextConfig.turbopack.rules[key] = {
         loaders: [
           ...((existingRules[key] as { loaders?: string[] })?.loaders || []),
-          loaderPath,
+          { loader: loaderPath, options: loaderOptions },
         ],
       };
     }
@@ -83,6 +104,7 @@ export function withSandbox(
       webpackConfig.module.rules.push({
         test: /.*\.(mjs|cjs|cts|ts|tsx|js|jsx)$/,
         loader: loaderPath,
+        options: loaderOptions,
       });
 
       return existingWebpackModify
@@ -7,11 +7,12 @@
  * 3. Bundles all sandbox functions for execution in the sandbox
  */
 
-import { transform } from "./transformer";
+import { transform, SandboxTransformError } from "./transformer";
 import {
   registerSandboxFile,
   generateBundleSync,
   hasSandboxFiles,
+  type BundleOptions,
 } from "./bundler";
 
 /**
@@ -34,6 +35,9 @@ export default async function sandboxLoader(
 
   // @ts-expect-error - webpack loader context
   const resourcePath: string = this?.resourcePath || "unknown.ts";
+  // Set by withSandbox()
+  // @ts-expect-error - webpack loader context
+  const options: BundleOptions = this?.getOptions?.() ?? {};
 
   // Skip .sandbox.ts files (we generate these)
   if (resourcePath.includes(".sandbox.")) {
@@ -49,18 +53,27 @@ export default async function sandboxLoader(
   try {
     const result = await transform(normalizedSource, resourcePath);
 
+    for (const warning of result.warnings) {
+      // @ts-expect-error - webpack loader context
+      this?.emitWarning?.(new Error(warning));
+    }
+
     if (result.hasSandboxFunctions && result.sandboxFileContent) {
       // Register the sandbox file for bundling
       registerSandboxFile(result.sandboxFilePath!, result.sandboxFileContent);
 
       // Generate bundle if we have files
       if (hasSandboxFiles()) {
-        generateBundleSync();
+        generateBundleSync(options);
       }
     }
 
     return result.code;
   } catch (error) {
+    // A problem in the user's code: fail the build with its message
+    if (error instanceof SandboxTransformError) {
+      throw error;
+    }
     console.error(`[use-sandbox] Transform failed for ${resourcePath}:`, error);
     return normalizedSource;
   }
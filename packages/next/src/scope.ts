@@ -0,0 +1,754 @@
+/**
+ * Scope analysis for the transformer: which names a piece of code uses
+ * without declaring them.
+ *
+ * The transformer needs this for two things. A nested sandbox function
+ * sends the variables it captures from enclosing functions along with its
+ * arguments. Module-level declarations and imports that sandbox code uses
+ * are copied into the sandbox file.
+ *
+ * Scopes follow the language: `var` and function parameters belong to the
+ * function; `let`, `const`, classes and function declarations belong to the
+ * block; loop heads and catch clauses have their own scope. Declarations are
+ * hoisted, so a use before the declaration still resolves to it.
+ */
+
+import type {
+  ArrowFunctionExpression,
+  AssignmentPatternProperty,
+  BindingIdentifier,
+  BlockStatement,
+  CatchClause,
+  ClassDeclaration,
+  ClassExpression,
+  Expression,
+  ForInStatement,
+  ForOfStatement,
+  ForStatement,
+  FunctionDeclaration,
+  FunctionExpression,
+  GetterProperty,
+  Identifier,
+  JSXAttribute,
+  JSXClosingElement,
+  JSXMemberExpression,
+  JSXOpeningElement,
+  KeyValuePatternProperty,
+  KeyValueProperty,
+  LabeledStatement,
+  MemberExpression,
+  MethodProperty,
+  ModuleItem,
+  Node,
+  ObjectPatternProperty,
+  Param,
+  Pattern,
+  SetterProperty,
+  Statement,
+  SuperPropExpression,
+  SwitchStatement,
+  TsCallSignatureDeclaration,
+  TsConstructSignatureDeclaration,
+  TsConstructorType,
+  TsEnumDeclaration,
+  TsFunctionType,
+  TsGetterSignature,
+  TsInterfaceDeclaration,
+  TsMappedType,
+  TsMethodSignature,
+  TsModuleBlock,
+  TsParameterProperty,
+  TsPropertySignature,
+  TsQualifiedName,
+  TsSetterSignature,
+  TsTypeAliasDeclaration,
+  TsTypeAnnotation,
+  TsTypeParameter,
+  TsTypeParameterDeclaration,
+  VariableDeclaration,
+} from "@swc/core";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FreeVariables {
+  /** Names used as values: the candidates for capture and hoisting */
+  values: Set<string>;
+  /** Names used only in type positions (TypeScript), which have no runtime value */
+  types: Set<string>;
+}
+
+interface Scope {
+  names: Set<string>;
+  parent: Scope | null;
+}
+
+/** Functions, methods, accessors and static blocks: what gets its own scope */
+interface FunctionLike {
+  params: (Param | Pattern | TsParameterProperty)[];
+  body?: BlockStatement | Expression;
+  typeParameters?: TsTypeParameterDeclaration;
+  returnType?: TsTypeAnnotation;
+}
+
+// ============================================================================
+// Declarations
+// ============================================================================
+
+/**
+ * Names bound by parameters or patterns: `a`, `{ b, c: d }`, `[e, ...f]`.
+ */
+export function extractParamNames(params: (Param | Pattern)[]): string[] {
+  const names: string[] = [];
+
+  function fromPattern(p: Pattern): void {
+    switch (p.type) {
+      case "Identifier":
+        names.push(p.value);
+        break;
+      case "ObjectPattern":
+        for (const prop of p.properties) {
+          if (prop.type === "KeyValuePatternProperty") {
+            fromPattern(prop.value);
+          } else if (prop.type === "AssignmentPatternProperty") {
+            names.push(prop.key.value);
+          } else if (prop.type === "RestElement") {
+            fromPattern(prop.argument);
+          }
+        }
+        break;
+      case "ArrayPattern":
+        for (const elem of p.elements) {
+          if (elem) fromPattern(elem);
+        }
+        break;
+      case "RestElement":
+        fromPattern(p.argument);
+        break;
+      case "AssignmentPattern":
+        fromPattern(p.left);
+        break;
+    }
+  }
+
+  for (const param of params) {
+    if ("pat" in param) {
+      fromPattern(param.pat);
+    } else {
+      fromPattern(param as Pattern);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Names a statement list declares in its own block: `let`, `const`,
+ * classes, functions, imports and TypeScript declarations.
+ */
+export function lexicalNames(stmts: (Statement | ModuleItem)[]): string[] {
+  const names: string[] = [];
+
+  for (const stmt of stmts) {
+    const decl =
+      stmt.type === "ExportDeclaration"
+        ? stmt.declaration
+        : stmt.type === "ExportDefaultDeclaration"
+          ? stmt.decl
+          : stmt;
+
+    switch (decl.type) {
+      case "VariableDeclaration":
+        if (decl.kind !== "var") {
+          names.push(...declarationNames(decl));
+        }
+        break;
+      case "FunctionDeclaration":
+      case "ClassDeclaration":
+      case "FunctionExpression":
+      case "ClassExpression":
+        // The expressions are `export default function name() {}`
+        if (decl.identifier) names.push(decl.identifier.value);
+        break;
+      case "TsEnumDeclaration":
+      case "TsInterfaceDeclaration":
+      case "TsTypeAliasDeclaration":
+        names.push(decl.id.value);
+        break;
+      case "TsModuleDeclaration":
+        if (decl.id.type === "Identifier") names.push(decl.id.value);
+        break;
+      case "ImportDeclaration":
+        if (!decl.typeOnly) {
+          for (const spec of decl.specifiers) names.push(spec.local.value);
+        }
+        break;
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Names declared with `var` anywhere in a function body, nested blocks
+ * included; they belong to the function.
+ */
+export function varNames(stmts: (Statement | ModuleItem)[]): string[] {
+  const names: string[] = [];
+
+  function visit(node: Statement | ModuleItem | Pattern | undefined): void {
+    if (!node) return;
+    switch (node.type) {
+      case "VariableDeclaration":
+        if (node.kind === "var") {
+          names.push(...declarationNames(node));
+        }
+        break;
+      case "ExportDeclaration":
+        visit(node.declaration);
+        break;
+      case "BlockStatement":
+        node.stmts.forEach(visit);
+        break;
+      case "IfStatement":
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+      case "ForStatement":
+        visit(node.init);
+        visit(node.body);
+        break;
+      case "ForInStatement":
+      case "ForOfStatement":
+        visit(node.left);
+        visit(node.body);
+        break;
+      case "WhileStatement":
+      case "DoWhileStatement":
+      case "LabeledStatement":
+        visit(node.body);
+        break;
+      case "TryStatement":
+        visit(node.block);
+        visit(node.handler?.body);
+        visit(node.finalizer);
+        break;
+      case "SwitchStatement":
+        for (const c of node.cases) c.consequent.forEach(visit);
+        break;
+      // Functions and classes have their own `var` scope
+    }
+  }
+
+  stmts.forEach(visit);
+  return names;
+}
+
+function declarationNames(decl: VariableDeclaration): string[] {
+  return extractParamNames(decl.declarations.map((d) => d.id));
+}
+
+/** Generic parameters: `T` and `U` of `<T, U extends T>` */
+function typeParamNames(
+  decl: TsTypeParameterDeclaration | undefined
+): string[] {
+  return decl?.parameters.map((p) => p.name.value) ?? [];
+}
+
+/** A node's fields, for visiting the kinds of nodes that aren't special */
+function fields(node: object): [string, unknown][] {
+  return Object.entries(node).filter(([key]) => key !== "span");
+}
+
+// ============================================================================
+// Free Variables
+// ============================================================================
+
+// Wrappers around an expression that are TypeScript syntax but not types
+const TS_EXPRESSIONS = new Set([
+  "TsAsExpression",
+  "TsSatisfiesExpression",
+  "TsNonNullExpression",
+  "TsConstAssertion",
+  "TsTypeAssertion",
+  "TsInstantiation",
+  "TsEnumDeclaration",
+  "TsModuleDeclaration",
+  "TsParameterProperty",
+  "TsExportAssignment",
+]);
+
+// Fields of TypeScript syntax that hold types
+const TYPE_FIELDS = new Set([
+  "typeAnnotation",
+  "returnType",
+  "typeParams",
+  "typeParameters",
+  "superTypeParams",
+  "typeArguments",
+  "implements",
+]);
+
+/**
+ * The names `body` uses without declaring them, as the body of a function
+ * with `params`, or as a module when `params` is omitted.
+ *
+ * Only real references count: property names (`obj.foo`, `{ foo: 1 }`),
+ * labels and JSX attribute names don't.
+ */
+export function findFreeVariables(
+  body: (Statement | ModuleItem)[],
+  params: (Param | Pattern)[] = []
+): FreeVariables {
+  const values = new Set<string>();
+  const types = new Set<string>();
+
+  function isDeclared(name: string, scope: Scope | null): boolean {
+    for (; scope; scope = scope.parent) {
+      if (scope.names.has(name)) return true;
+    }
+    return false;
+  }
+
+  function reference(name: string, scope: Scope): void {
+    if (!isDeclared(name, scope)) values.add(name);
+  }
+
+  function typeReference(name: string, scope: Scope): void {
+    if (!isDeclared(name, scope)) types.add(name);
+  }
+
+  function child(parent: Scope, names: Iterable<string>): Scope {
+    return { names: new Set(names), parent };
+  }
+
+  /** A function's scope: its params, `arguments` and its body's declarations */
+  function visitFunction(fn: FunctionLike, scope: Scope): void {
+    const bodyStmts = fn.body?.type === "BlockStatement" ? fn.body.stmts : [];
+    // constructor(private client: Client) declares `client`
+    const patterns = fn.params.map((p) =>
+      p.type === "TsParameterProperty" ? p.param : p
+    );
+    const fnScope = child(scope, [
+      "arguments",
+      ...typeParamNames(fn.typeParameters),
+      ...extractParamNames(patterns),
+      ...lexicalNames(bodyStmts),
+      ...varNames(bodyStmts),
+    ]);
+
+    for (const param of fn.params) visitBinding(param, fnScope);
+    visitType(fn.typeParameters, fnScope);
+    visitType(fn.returnType, fnScope);
+
+    if (fn.body?.type === "BlockStatement") {
+      for (const stmt of bodyStmts) visit(stmt, fnScope);
+    } else {
+      // Arrow function with an expression body
+      visit(fn.body, fnScope);
+    }
+  }
+
+  /**
+   * A binding pattern: its names are declared by the caller, but default
+   * values, computed keys and type annotations are visited.
+   */
+  function visitBinding(
+    node:
+      | Param
+      | Pattern
+      | TsParameterProperty
+      | ObjectPatternProperty
+      | undefined,
+    scope: Scope
+  ): void {
+    if (!node) return;
+    switch (node.type) {
+      case "Parameter":
+        visit(node.decorators, scope);
+        visitBinding(node.pat, scope);
+        break;
+      case "TsParameterProperty":
+        visit(node.decorators, scope);
+        visitBinding(node.param, scope);
+        break;
+      case "Identifier":
+        visitType((node as BindingIdentifier).typeAnnotation, scope);
+        break;
+      case "ObjectPattern":
+        for (const prop of node.properties) visitBinding(prop, scope);
+        visitType(node.typeAnnotation, scope);
+        break;
+      case "KeyValuePatternProperty":
+        if (node.key.type === "Computed") visit(node.key, scope);
+        visitBinding(node.value, scope);
+        break;
+      case "AssignmentPatternProperty":
+        visit(node.value, scope);
+        break;
+      case "ArrayPattern":
+        for (const elem of node.elements) visitBinding(elem, scope);
+        visitType(node.typeAnnotation, scope);
+        break;
+      case "RestElement":
+        visitBinding(node.argument, scope);
+        visitType(node.typeAnnotation, scope);
+        break;
+      case "AssignmentPattern":
+        visitBinding(node.left, scope);
+        visit(node.right, scope);
+        break;
+      default:
+        // An expression used as an assignment target, e.g. `obj.prop`
+        visit(node, scope);
+    }
+  }
+
+  /** Type positions: names there are types, `typeof x` included */
+  function visitType(node: unknown, scope: Scope): void {
+    if (!node || typeof node !== "object") return;
+    if (Array.isArray(node)) {
+      for (const item of node) visitType(item, scope);
+      return;
+    }
+
+    const n = node as Node;
+    switch (n.type) {
+      case "Identifier":
+        typeReference((n as Identifier).value, scope);
+        return;
+      case "TsQualifiedName":
+        // Only the `A` of `A.B.C` is a name in scope
+        visitType((n as TsQualifiedName).left, scope);
+        return;
+      case "TsPropertySignature":
+      case "TsGetterSignature": {
+        const sig = n as TsPropertySignature | TsGetterSignature;
+        if (sig.computed) visitType(sig.key, scope);
+        visitType(sig.typeAnnotation, scope);
+        return;
+      }
+      case "TsSetterSignature": {
+        const sig = n as TsSetterSignature;
+        if (sig.computed) visitType(sig.key, scope);
+        visitType(sig.param.typeAnnotation, scope);
+        return;
+      }
+      case "TsInterfaceDeclaration": {
+        // The declared name is in scope already; its generics are local
+        const decl = n as TsInterfaceDeclaration;
+        const inner = child(scope, typeParamNames(decl.typeParams));
+        visitType([decl.typeParams, decl.extends, decl.body], inner);
+        return;
+      }
+      case "TsTypeAliasDeclaration": {
+        const decl = n as TsTypeAliasDeclaration;
+        const inner = child(scope, typeParamNames(decl.typeParams));
+        visitType([decl.typeParams, decl.typeAnnotation], inner);
+        return;
+      }
+      case "TsFunctionType":
+      case "TsConstructorType":
+      case "TsMethodSignature":
+      case "TsCallSignatureDeclaration":
+      case "TsConstructSignatureDeclaration": {
+        const sig = n as
+          | TsFunctionType
+          | TsConstructorType
+          | TsMethodSignature
+          | TsCallSignatureDeclaration
+          | TsConstructSignatureDeclaration;
+        if (sig.type === "TsMethodSignature" && sig.computed) {
+          visitType(sig.key, scope);
+        }
+        // Parameter names of a signature aren't references
+        const inner = child(scope, typeParamNames(sig.typeParams));
+        visitType(sig.typeParams, inner);
+        for (const param of sig.params) visitType(param.typeAnnotation, inner);
+        visitType(
+          sig.type === "TsMethodSignature" ? sig.typeAnn : sig.typeAnnotation,
+          inner
+        );
+        return;
+      }
+      case "TsMappedType": {
+        const mapped = n as TsMappedType;
+        visitType(mapped.typeParam.constraint, scope);
+        visitType(
+          [mapped.nameType, mapped.typeAnnotation],
+          child(scope, [mapped.typeParam.name.value])
+        );
+        return;
+      }
+      case "TsInferType":
+        // Declares its name for the conditional type, which can't be tracked
+        return;
+      case "TsTypeParameter": {
+        // Generic parameters are declared, not referenced
+        const param = n as TsTypeParameter;
+        visitType([param.constraint, param.default], scope);
+        return;
+      }
+    }
+
+    for (const [, value] of fields(n)) visitType(value, scope);
+  }
+
+  function visitClass(
+    cls: ClassDeclaration | ClassExpression,
+    scope: Scope
+  ): void {
+    visit(cls.decorators, scope);
+    visit(cls.superClass, scope);
+
+    // A class expression's own name is visible inside it, and so are generics
+    const inner = child(scope, [
+      ...(cls.identifier ? [cls.identifier.value] : []),
+      ...typeParamNames(cls.typeParams),
+    ]);
+    visitType([cls.typeParams, cls.superTypeParams, cls.implements], inner);
+
+    for (const member of cls.body) {
+      switch (member.type) {
+        case "ClassMethod":
+        case "PrivateMethod":
+          if (member.key.type === "Computed") visit(member.key, inner);
+          visit(member.function.decorators, inner);
+          visitFunction(member.function, inner);
+          break;
+        case "Constructor":
+          visitFunction(member, inner);
+          break;
+        case "ClassProperty":
+        case "PrivateProperty":
+          visit(member.decorators, inner);
+          if (member.key.type === "Computed") visit(member.key, inner);
+          visitType(member.typeAnnotation, inner);
+          visit(member.value, inner);
+          break;
+        case "StaticBlock":
+          visitFunction({ params: [], body: member.body }, inner);
+          break;
+        case "TsIndexSignature":
+          visitType(member, inner);
+          break;
+      }
+    }
+  }
+
+  function visitStatements(
+    stmts: (Statement | ModuleItem)[],
+    scope: Scope
+  ): void {
+    const block = child(scope, lexicalNames(stmts));
+    for (const stmt of stmts) visit(stmt, block);
+  }
+
+  function visit(node: unknown, scope: Scope): void {
+    if (!node || typeof node !== "object") return;
+    if (Array.isArray(node)) {
+      for (const item of node) visit(item, scope);
+      return;
+    }
+
+    const n = node as Node;
+    switch (n.type) {
+      case "Identifier":
+        reference((n as Identifier).value, scope);
+        return;
+
+      // ---- Declarations (names are hoisted into the scope already) ----
+      case "VariableDeclaration":
+        for (const d of (n as VariableDeclaration).declarations) {
+          visitBinding(d.id, scope);
+          visit(d.init, scope);
+        }
+        return;
+      case "FunctionDeclaration": {
+        const fn = n as FunctionDeclaration;
+        visit(fn.decorators, scope);
+        visitFunction(fn, scope);
+        return;
+      }
+      case "FunctionExpression": {
+        // A named function expression sees its own name
+        const fn = n as FunctionExpression;
+        visit(fn.decorators, scope);
+        visitFunction(
+          fn,
+          fn.identifier ? child(scope, [fn.identifier.value]) : scope
+        );
+        return;
+      }
+      case "ArrowFunctionExpression":
+        visitFunction(n as ArrowFunctionExpression, scope);
+        return;
+      case "ClassDeclaration":
+      case "ClassExpression":
+        visitClass(n as ClassDeclaration | ClassExpression, scope);
+        return;
+      case "ImportDeclaration":
+        return;
+      case "TsEnumDeclaration": {
+        // Members are in scope in later initializers: `B = A * 2`
+        const { members } = n as TsEnumDeclaration;
+        const inner = child(scope, members.map((m) => m.id.value));
+        for (const m of members) visit(m.init, inner);
+        return;
+      }
+      case "TsModuleBlock":
+        visitStatements((n as TsModuleBlock).body, scope);
+        return;
+
+      // ---- Scopes ----
+      case "BlockStatement":
+        visitStatements((n as BlockStatement).stmts, scope);
+        return;
+      case "SwitchStatement": {
+        const stmt = n as SwitchStatement;
+        visit(stmt.discriminant, scope);
+        const block = child(
+          scope,
+          lexicalNames(stmt.cases.flatMap((c) => c.consequent))
+        );
+        for (const c of stmt.cases) {
+          visit(c.test, block);
+          for (const s of c.consequent) visit(s, block);
+        }
+        return;
+      }
+      case "ForStatement": {
+        const stmt = n as ForStatement;
+        const head =
+          stmt.init?.type === "VariableDeclaration" && stmt.init.kind !== "var"
+            ? child(scope, declarationNames(stmt.init))
+            : scope;
+        visit([stmt.init, stmt.test, stmt.update, stmt.body], head);
+        return;
+      }
+      case "ForInStatement":
+      case "ForOfStatement": {
+        const stmt = n as ForInStatement | ForOfStatement;
+        const head =
+          stmt.left.type === "VariableDeclaration" && stmt.left.kind !== "var"
+            ? child(scope, declarationNames(stmt.left))
+            : scope;
+        visit(stmt.right, scope);
+        visit([stmt.left, stmt.body], head);
+        return;
+      }
+      case "CatchClause": {
+        const clause = n as CatchClause;
+        const handler = child(
+          scope,
+          clause.param ? extractParamNames([clause.param]) : []
+        );
+        visitBinding(clause.param, handler);
+        visit(clause.body, handler);
+        return;
+      }
+
+      // ---- Names that aren't references ----
+      case "MemberExpression": {
+        const expr = n as MemberExpression;
+        visit(expr.object, scope);
+        if (expr.property.type === "Computed") visit(expr.property, scope);
+        return;
+      }
+      case "SuperPropExpression": {
+        const expr = n as SuperPropExpression;
+        if (expr.property.type === "Computed") visit(expr.property, scope);
+        return;
+      }
+      case "KeyValueProperty":
+      case "KeyValuePatternProperty": {
+        // `({ a: b } = obj)` assigns to `b`
+        const prop = n as KeyValueProperty | KeyValuePatternProperty;
+        if (prop.key.type === "Computed") visit(prop.key, scope);
+        visit(prop.value, scope);
+        return;
+      }
+      case "AssignmentPatternProperty": {
+        // `({ a = 1 } = obj)` assigns to `a`
+        const prop = n as AssignmentPatternProperty;
+        visit([prop.key, prop.value], scope);
+        return;
+      }
+      case "PrivateName":
+        return;
+      case "MethodProperty": {
+        const method = n as MethodProperty;
+        if (method.key.type === "Computed") visit(method.key, scope);
+        visitFunction(method, scope);
+        return;
+      }
+      case "GetterProperty": {
+        const getter = n as GetterProperty;
+        if (getter.key.type === "Computed") visit(getter.key, scope);
+        visitType(getter.typeAnnotation, scope);
+        visitFunction({ params: [], body: getter.body }, scope);
+        return;
+      }
+      case "SetterProperty": {
+        const setter = n as SetterProperty;
+        if (setter.key.type === "Computed") visit(setter.key, scope);
+        visitFunction({ params: [setter.param], body: setter.body }, scope);
+        return;
+      }
+      case "LabeledStatement":
+        visit((n as LabeledStatement).body, scope);
+        return;
+      case "BreakStatement":
+      case "ContinueStatement":
+        return;
+      case "JSXAttribute":
+        visit((n as JSXAttribute).value, scope);
+        return;
+      case "JSXMemberExpression":
+        visit((n as JSXMemberExpression).object, scope);
+        return;
+      case "JSXOpeningElement":
+      case "JSXClosingElement": {
+        // <div> is an intrinsic element, <Card> a reference
+        const { name } = n as JSXOpeningElement | JSXClosingElement;
+        if (name.type === "Identifier" && /^[a-z]/.test(name.value)) {
+          visit((n as Partial<JSXOpeningElement>).attributes, scope);
+          visitType((n as Partial<JSXOpeningElement>).typeArguments, scope);
+          return;
+        }
+        break;
+      }
+      case "JSXNamespacedName":
+        return;
+    }
+
+    if (n.type?.startsWith("Ts") && !TS_EXPRESSIONS.has(n.type)) {
+      visitType(n, scope);
+      return;
+    }
+
+    for (const [key, value] of fields(n)) {
+      if (TYPE_FIELDS.has(key)) {
+        visitType(value, scope);
+      } else {
+        visit(value, scope);
+      }
+    }
+  }
+
+  const root: Scope = {
+    names: new Set([
+      ...extractParamNames(params),
+      ...lexicalNames(body),
+      ...varNames(body),
+    ]),
+    parent: null,
+  };
+  for (const param of params) visitBinding(param, root);
+  for (const stmt of body) visit(stmt, root);
+
+  // A name used both ways is a value
+  for (const name of values) types.delete(name);
+  return { values, types };
+}
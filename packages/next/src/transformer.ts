@@ -21,15 +21,27 @@ import type {
   FunctionDeclaration,
   FunctionExpression,
   ArrowFunctionExpression,
-  Identifier,
   Pattern,
   Param,
   VariableDeclaration,
   ExportDeclaration,
+  ExportDefaultDeclaration,
+  ImportSpecifier,
+  Class,
+  Fn,
+  PropertyName,
+  PrivateName,
 } from "@swc/core";
 import { createHash } from "crypto";
 import { writeFileSync, mkdirSync, existsSync } from "fs";
 import { dirname, basename } from "path";
+import {
+  extractParamNames,
+  findFreeVariables,
+  lexicalNames,
+  varNames,
+  type FreeVariables,
+} from "./scope";
 
 // ============================================================================
 // Types
@@ -40,6 +52,19 @@ export interface TransformResult {
   hasSandboxFunctions: boolean;
   sandboxFilePath: string | null;
   sandboxFileContent: string | null;
+  /** Problems that don't fail the build, for the loader to report */
+  warnings: string[];
+}
+
+/**
+ * A "use sandbox" function can't be compiled: the build fails with this
+ * message instead of producing a bundle that breaks at run time.
+ */
+export class SandboxTransformError extends Error {
+  constructor(message: string) {
+    super(`[use-sandbox] ${message}`);
+    this.name = "SandboxTransformError";
+  }
 }
 
 interface SandboxFunction {
@@ -53,12 +78,16 @@ interface SandboxFunction {
   params: string[];
   /** Captured closure variables (for nested functions) */
   closureVars: string[];
+  /** Names the function uses that may be module-level declarations */
+  references: string[];
   /** Source code of the function body (after "use sandbox" directive) */
   bodySource: string;
   /** Full function source for the .sandbox.ts file */
   fullSource: string;
   /** Is this an async function? */
   isAsync: boolean;
+  /** Is this an async generator? Its stub returns an AsyncIterable */
+  isGenerator: boolean;
   /** Location for AST replacement */
   astLocation: AstLocation;
 }
@@ -72,15 +101,25 @@ type AstLocation =
       type: "export-var-declarator";
       moduleIndex: number;
       declIndex: number;
-    };
+    }
+  /** A function declaration in a block, replaced by a stub declaration */
+  | { type: "nested-decl"; stmts: Statement[]; index: number }
+  /** A function expression, replaced by a stub arrow: `parent[key]` */
+  | { type: "expression"; parent: object; key: string }
+  /** An object or class method, whose params and body are replaced */
+  | { type: "method"; fn: Fn };
 
 interface ScopeInfo {
   /** Variables declared in this scope */
   declared: Set<string>;
+  /** Declared names that are functions or classes, which can't be captured */
+  functions: Map<string, FunctionKind>;
   /** Parent scope */
   parent: ScopeInfo | null;
 }
 
+type FunctionKind = "function" | '"use sandbox" function' | "class";
+
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -91,7 +130,8 @@ interface ScopeInfo {
  * which is critical for hot-reload to work correctly.
  */
 function generateFnId(filename: string, scopePath: string[]): string {
-  const fnName = scopePath.join("$");
+  // Member names like "x-y" or "#read" become identifiers
+  const fnName = scopePath.join("$").replace(/[^\w$]/g, "_");
   // Use file path + function name for stable ID (not code content)
   const stableKey = `${filename}/${fnName}`;
   const hash = hashString(stableKey);
@@ -187,50 +227,6 @@ function printParams(params: (Param | Pattern)[]): string {
   }
 }
 
-function extractParamNames(params: (Param | Pattern)[]): string[] {
-  const names: string[] = [];
-
-  function fromPattern(p: Pattern): void {
-    switch (p.type) {
-      case "Identifier":
-        names.push(p.value);
-        break;
-      case "ObjectPattern":
-        for (const prop of p.properties) {
-          if (prop.type === "KeyValuePatternProperty") {
-            fromPattern(prop.value);
-          } else if (prop.type === "AssignmentPatternProperty") {
-            names.push(prop.key.value);
-          } else if (prop.type === "RestElement") {
-            fromPattern(prop.argument);
-          }
-        }
-        break;
-      case "ArrayPattern":
-        for (const elem of p.elements) {
-          if (elem) fromPattern(elem);
-        }
-        break;
-      case "RestElement":
-        fromPattern(p.argument);
-        break;
-      case "AssignmentPattern":
-        fromPattern(p.left);
-        break;
-    }
-  }
-
-  for (const param of params) {
-    if ("pat" in param) {
-      fromPattern(param.pat);
-    } else {
-      fromPattern(param as Pattern);
-    }
-  }
-
-  return names;
-}
-
 // ============================================================================
 // AST Walking
 // ============================================================================
@@ -238,7 +234,8 @@ function extractParamNames(params: (Param | Pattern)[]): string[] {
 type AnyFunction =
   | FunctionDeclaration
   | FunctionExpression
-  | ArrowFunctionExpression;
+  | ArrowFunctionExpression
+  | Fn;
 
 interface WalkContext {
   currentScope: ScopeInfo;
@@ -248,6 +245,32 @@ interface WalkContext {
   filename: string;
 }
 
+/** Location of a function that a stub arrow function can replace */
+function at(parent: object, key: string): AstLocation {
+  return { type: "expression", parent, key };
+}
+
+/**
+ * Name of an object or class member: `read` for `read() {}`, `"x-y"`, or
+ * "computed" for `[key]() {}`.
+ */
+function memberName(key: PropertyName | PrivateName): string {
+  switch (key.type) {
+    case "Identifier":
+    case "StringLiteral":
+      return key.value;
+    case "PrivateName": {
+      // Typed as `id`, but recent SWC versions put the name in `value`
+      const { id, value } = key as Partial<PrivateName> & { value?: string };
+      return `#${id?.value ?? value}`;
+    }
+    case "NumericLiteral":
+      return String(key.value);
+    default:
+      return "computed";
+  }
+}
+
 /**
  * Walk the AST to find all sandbox functions, tracking AST locations.
  */
@@ -271,6 +294,8 @@ function walkModuleItem(
         walkFunctionDecl(item.declaration, ctx, { type: "export-decl", index });
       } else if (item.declaration.type === "VariableDeclaration") {
         walkVarDecl(item.declaration, ctx, index, true);
+      } else if (item.declaration.type === "ClassDeclaration") {
+        walkClass(item.declaration, ctx, item.declaration.identifier.value);
       }
       break;
     case "ExportDefaultDeclaration":
@@ -279,11 +304,20 @@ function walkModuleItem(
           type: "export-default",
           index,
         });
+      } else if (item.decl.type === "ClassExpression") {
+        walkClass(item.decl, ctx, item.decl.identifier?.value ?? "default");
       }
       break;
+    case "ExportDefaultExpression":
+      walkExpression(item.expression, ctx, at(item, "expression"), "default");
+      break;
     case "VariableDeclaration":
       walkVarDecl(item, ctx, index, false);
       break;
+    case "ClassDeclaration":
+    case "ExpressionStatement":
+      walkStatement(item, ctx);
+      break;
     default:
       if ("body" in item && item.body) {
         walkStatement(item as Statement, ctx);
@@ -299,22 +333,18 @@ function walkVarDecl(
 ): void {
   for (let i = 0; i < decl.declarations.length; i++) {
     const d = decl.declarations[i];
-    if (d.id.type === "Identifier") {
-      ctx.currentScope.declared.add(d.id.value);
-    }
-
     if (d.init) {
+      const name = d.id.type === "Identifier" ? d.id.value : "anonymous";
       if (
         d.init.type === "FunctionExpression" ||
         d.init.type === "ArrowFunctionExpression"
       ) {
-        const name = d.id.type === "Identifier" ? d.id.value : "anonymous";
         const loc: AstLocation = isExport
           ? { type: "export-var-declarator", moduleIndex, declIndex: i }
           : { type: "var-declarator", moduleIndex, declIndex: i };
         walkFunctionExpr(d.init, ctx, name, loc);
       } else {
-        walkExpression(d.init, ctx);
+        walkExpression(d.init, ctx, at(d, "init"), name);
       }
     }
   }
@@ -326,8 +356,6 @@ function walkFunctionDecl(
   astLocation: AstLocation
 ): void {
   const name = fn.identifier.value;
-  ctx.currentScope.declared.add(name);
-
   if (!fn.body) return;
 
   const hasSandbox =
@@ -353,7 +381,11 @@ function walkFunctionExpr(
       fn.type === "ArrowFunctionExpression" &&
       fn.body?.type !== "BlockStatement"
     ) {
-      walkExpression(fn.body as Expression, ctx);
+      walkExpression(
+        fn.body as Expression,
+        withScope(ctx, extractParamNames(fn.params)),
+        at(fn, "body")
+      );
     }
     return;
   }
@@ -368,128 +400,343 @@ function walkFunctionExpr(
   }
 }
 
+/**
+ * Object literal and class methods: a sandbox method keeps its key and gets
+ * the stub's parameters and body.
+ */
+function walkMethod(fn: Fn, ctx: WalkContext, name: string): void {
+  if (!fn.body) return;
+
+  const hasSandbox =
+    fn.body.stmts.length > 0 && isUseSandboxDirective(fn.body.stmts[0]);
+
+  if (hasSandbox) {
+    collectSandboxFunction(fn, fn.body, name, ctx, { type: "method", fn });
+  } else {
+    walkFunctionBody(fn.body, fn.params, name, ctx);
+  }
+}
+
+function walkClass(cls: Class, ctx: WalkContext, name: string): void {
+  if (cls.superClass) walkExpression(cls.superClass, ctx);
+
+  const classCtx: WalkContext = {
+    ...ctx,
+    scopePath: [...ctx.scopePath, name],
+  };
+
+  for (const member of cls.body) {
+    switch (member.type) {
+      case "ClassMethod":
+      case "PrivateMethod":
+        // Getters and setters can't be async, so they can't be stubbed
+        if (member.kind === "method") {
+          walkMethod(member.function, classCtx, memberName(member.key));
+        }
+        break;
+      case "ClassProperty":
+      case "PrivateProperty":
+        if (member.value) {
+          walkExpression(
+            member.value,
+            classCtx,
+            at(member, "value"),
+            memberName(member.key)
+          );
+        }
+        break;
+      case "Constructor":
+        if (member.body) {
+          walkFunctionBody(
+            member.body,
+            member.params.filter(
+              (p): p is Param => p.type === "Parameter"
+            ),
+            "constructor",
+            classCtx
+          );
+        }
+        break;
+    }
+  }
+}
+
 function walkFunctionBody(
   body: BlockStatement,
   params: (Param | Pattern)[],
   fnName: string,
   ctx: WalkContext
 ): void {
-  const newScope: ScopeInfo = {
-    declared: new Set(extractParamNames(params)),
-    parent: ctx.currentScope,
+  const newCtx: WalkContext = {
+    ...withScope(
+      ctx,
+      [
+        ...extractParamNames(params),
+        ...lexicalNames(body.stmts),
+        ...varNames(body.stmts),
+      ],
+      functionNames(body.stmts)
+    ),
+    scopePath: [...ctx.scopePath, fnName],
   };
 
-  const newCtx: WalkContext = {
+  walkStatements(body.stmts, newCtx);
+}
+
+/**
+ * A child scope declaring `names`. Declarations are hoisted, so a block's
+ * names are known before its statements are walked.
+ */
+function withScope(
+  ctx: WalkContext,
+  names: string[],
+  functions = new Map<string, FunctionKind>()
+): WalkContext {
+  return {
     ...ctx,
-    currentScope: newScope,
-    scopePath: [...ctx.scopePath, fnName],
+    currentScope: {
+      declared: new Set(names),
+      functions,
+      parent: ctx.currentScope,
+    },
   };
+}
 
-  for (const stmt of body.stmts) {
-    walkStatement(stmt, newCtx);
+/**
+ * Functions and classes declared directly in a statement list, by
+ * declaration or as a variable's initial value.
+ */
+function functionNames(stmts: Statement[]): Map<string, FunctionKind> {
+  const functions = new Map<string, FunctionKind>();
+  const kind = (body: BlockStatement | Expression | undefined): FunctionKind =>
+    body?.type === "BlockStatement" &&
+    body.stmts.length > 0 &&
+    isUseSandboxDirective(body.stmts[0])
+      ? '"use sandbox" function'
+      : "function";
+
+  for (const stmt of stmts) {
+    if (stmt.type === "FunctionDeclaration") {
+      functions.set(stmt.identifier.value, kind(stmt.body));
+    } else if (stmt.type === "ClassDeclaration") {
+      functions.set(stmt.identifier.value, "class");
+    } else if (stmt.type === "VariableDeclaration") {
+      for (const d of stmt.declarations) {
+        if (d.id.type !== "Identifier") continue;
+        if (
+          d.init?.type === "FunctionExpression" ||
+          d.init?.type === "ArrowFunctionExpression"
+        ) {
+          functions.set(d.id.value, kind(d.init.body));
+        } else if (d.init?.type === "ClassExpression") {
+          functions.set(d.id.value, "class");
+        }
+      }
+    }
+  }
+  return functions;
+}
+
+/**
+ * Walk a statement list. Function declarations in it are replaced in place,
+ * so they're tracked with their position in the list.
+ */
+function walkStatements(stmts: Statement[], ctx: WalkContext): void {
+  for (let i = 0; i < stmts.length; i++) {
+    const stmt = stmts[i];
+    if (stmt.type === "FunctionDeclaration") {
+      walkFunctionDecl(stmt, ctx, { type: "nested-decl", stmts, index: i });
+    } else {
+      walkStatement(stmt, ctx);
+    }
   }
 }
 
 function walkStatement(stmt: Statement, ctx: WalkContext): void {
   switch (stmt.type) {
     case "VariableDeclaration":
-      // Nested var decl - not tracking for replacement
       for (const d of stmt.declarations) {
-        if (d.id.type === "Identifier") {
-          ctx.currentScope.declared.add(d.id.value);
+        if (d.init) {
+          const name = d.id.type === "Identifier" ? d.id.value : undefined;
+          walkExpression(d.init, ctx, at(d, "init"), name);
         }
-        if (d.init) walkExpression(d.init, ctx);
       }
       break;
     case "FunctionDeclaration":
-      // Nested function - not tracking for replacement yet
-      ctx.currentScope.declared.add(stmt.identifier.value);
+      // Outside of a statement list (`if (x) function f() {}`): not replaced
       if (stmt.body) {
         walkFunctionBody(stmt.body, stmt.params, stmt.identifier.value, ctx);
       }
       break;
+    case "ClassDeclaration":
+      walkClass(stmt, ctx, stmt.identifier.value);
+      break;
     case "BlockStatement":
-      for (const s of stmt.stmts) {
-        walkStatement(s, ctx);
-      }
+      walkStatements(
+        stmt.stmts,
+        withScope(ctx, lexicalNames(stmt.stmts), functionNames(stmt.stmts))
+      );
       break;
     case "IfStatement":
       walkExpression(stmt.test, ctx);
       walkStatement(stmt.consequent, ctx);
       if (stmt.alternate) walkStatement(stmt.alternate, ctx);
       break;
-    case "ForStatement":
+    case "ForStatement": {
+      const headCtx =
+        stmt.init?.type === "VariableDeclaration"
+          ? withScope(ctx, lexicalNames([stmt.init]))
+          : ctx;
       if (stmt.init?.type === "VariableDeclaration") {
-        for (const d of stmt.init.declarations) {
-          if (d.id.type === "Identifier") {
-            ctx.currentScope.declared.add(d.id.value);
-          }
-          if (d.init) walkExpression(d.init, ctx);
-        }
+        walkStatement(stmt.init, headCtx);
       }
-      if (stmt.test) walkExpression(stmt.test, ctx);
-      if (stmt.update) walkExpression(stmt.update, ctx);
-      walkStatement(stmt.body, ctx);
+      if (stmt.test) walkExpression(stmt.test, headCtx);
+      if (stmt.update) walkExpression(stmt.update, headCtx);
+      walkStatement(stmt.body, headCtx);
+      break;
+    }
+    case "ForOfStatement":
+    case "ForInStatement":
+      walkExpression(stmt.right, ctx);
+      walkStatement(
+        stmt.body,
+        stmt.left.type === "VariableDeclaration"
+          ? withScope(ctx, lexicalNames([stmt.left]))
+          : ctx
+      );
       break;
     case "WhileStatement":
+    case "DoWhileStatement":
       walkExpression(stmt.test, ctx);
       walkStatement(stmt.body, ctx);
       break;
+    case "SwitchStatement": {
+      walkExpression(stmt.discriminant, ctx);
+      const consequents = stmt.cases.flatMap((c) => c.consequent);
+      const casesCtx = withScope(
+        ctx,
+        lexicalNames(consequents),
+        functionNames(consequents)
+      );
+      for (const c of stmt.cases) {
+        walkStatements(c.consequent, casesCtx);
+      }
+      break;
+    }
+    case "LabeledStatement":
+      walkStatement(stmt.body, ctx);
+      break;
     case "ReturnStatement":
-      if (stmt.argument) walkExpression(stmt.argument, ctx);
+      if (stmt.argument) {
+        walkExpression(stmt.argument, ctx, at(stmt, "argument"));
+      }
+      break;
+    case "ThrowStatement":
+      walkExpression(stmt.argument, ctx);
       break;
     case "ExpressionStatement":
-      walkExpression(stmt.expression, ctx);
+      walkExpression(stmt.expression, ctx, at(stmt, "expression"));
       break;
     case "TryStatement":
       walkStatement(stmt.block, ctx);
-      if (stmt.handler) walkStatement(stmt.handler.body, ctx);
+      if (stmt.handler) {
+        const param = stmt.handler.param;
+        walkStatement(
+          stmt.handler.body,
+          withScope(ctx, param ? extractParamNames([param]) : [])
+        );
+      }
       if (stmt.finalizer) walkStatement(stmt.finalizer, ctx);
       break;
   }
 }
 
-function walkExpression(expr: Expression, ctx: WalkContext): void {
+/**
+ * @param loc Where a sandbox function expression found here is replaced
+ * @param name Name for a function or object found here, e.g. the variable
+ *   it's assigned to
+ */
+function walkExpression(
+  expr: Expression,
+  ctx: WalkContext,
+  loc?: AstLocation,
+  name?: string
+): void {
   switch (expr.type) {
     case "FunctionExpression":
-    case "ArrowFunctionExpression":
-      // Nested function expressions - walk body but don't track for replacement
-      const name =
+    case "ArrowFunctionExpression": {
+      const fnName =
         expr.type === "FunctionExpression" && expr.identifier
           ? expr.identifier.value
-          : "anonymous";
-      const body = expr.body?.type === "BlockStatement" ? expr.body : null;
-      if (body) {
-        walkFunctionBody(body, expr.params, name, ctx);
+          : name ?? "anonymous";
+      if (loc) {
+        walkFunctionExpr(expr, ctx, fnName, loc);
+      } else if (expr.body?.type === "BlockStatement") {
+        walkFunctionBody(expr.body, expr.params, fnName, ctx);
       }
       break;
+    }
+    case "ClassExpression":
+      walkClass(expr, ctx, expr.identifier?.value ?? name ?? "anonymous");
+      break;
     case "CallExpression":
+    case "NewExpression":
       if (expr.callee.type !== "Super" && expr.callee.type !== "Import") {
         walkExpression(expr.callee, ctx);
       }
-      for (const arg of expr.arguments) {
-        if (arg.expression) walkExpression(arg.expression, ctx);
+      for (const arg of expr.arguments ?? []) {
+        if (arg.expression) {
+          walkExpression(arg.expression, ctx, at(arg, "expression"));
+        }
       }
       break;
     case "MemberExpression":
       walkExpression(expr.object, ctx);
       break;
-    case "ObjectExpression":
+    case "ObjectExpression": {
+      // Members of `const tools = { ... }` are named tools.read, tools.write
+      const objectCtx: WalkContext = name
+        ? { ...ctx, scopePath: [...ctx.scopePath, name] }
+        : ctx;
       for (const prop of expr.properties) {
         if (prop.type === "KeyValueProperty" && prop.value) {
-          walkExpression(prop.value, ctx);
+          walkExpression(
+            prop.value,
+            objectCtx,
+            at(prop, "value"),
+            memberName(prop.key)
+          );
+        } else if (prop.type === "MethodProperty") {
+          walkMethod(prop, objectCtx, memberName(prop.key));
+        } else if (prop.type === "SpreadElement") {
+          walkExpression(prop.arguments, ctx);
         }
       }
       break;
+    }
     case "ArrayExpression":
       for (const elem of expr.elements) {
-        if (elem?.expression) walkExpression(elem.expression, ctx);
+        if (elem?.expression) {
+          walkExpression(elem.expression, ctx, at(elem, "expression"));
+        }
+      }
+      break;
+    case "ParenthesisExpression":
+    case "TsAsExpression":
+    case "TsSatisfiesExpression":
+    case "TsConstAssertion":
+    case "TsNonNullExpression":
+      walkExpression(expr.expression, ctx, at(expr, "expression"), name);
+      break;
+    case "SequenceExpression":
+      for (const e of expr.expressions) {
+        walkExpression(e, ctx);
       }
       break;
     case "ConditionalExpression":
       walkExpression(expr.test, ctx);
-      walkExpression(expr.consequent, ctx);
-      walkExpression(expr.alternate, ctx);
+      walkExpression(expr.consequent, ctx, at(expr, "consequent"), name);
+      walkExpression(expr.alternate, ctx, at(expr, "alternate"), name);
       break;
     case "BinaryExpression":
       walkExpression(expr.left, ctx);
@@ -501,9 +748,17 @@ function walkExpression(expr: Expression, ctx: WalkContext): void {
     case "AwaitExpression":
       walkExpression(expr.argument, ctx);
       break;
-    case "AssignmentExpression":
-      walkExpression(expr.right, ctx);
+    case "AssignmentExpression": {
+      const target =
+        expr.left.type === "Identifier"
+          ? expr.left.value
+          : expr.left.type === "MemberExpression" &&
+              expr.left.property.type === "Identifier"
+            ? expr.left.property.value
+            : undefined;
+      walkExpression(expr.right, ctx, at(expr, "right"), target);
       break;
+    }
     case "TemplateLiteral":
       for (const e of expr.expressions) {
         walkExpression(e, ctx);
@@ -526,26 +781,65 @@ function collectSandboxFunction(
   const scopePath = [...ctx.scopePath, name];
   const isNested = ctx.scopePath.length > 0;
 
+  if (usesThis(body)) {
+    throw new SandboxTransformError(
+      `"use sandbox" function ${scopePath.join(".")} uses \`this\`, which ` +
+        `doesn't exist in the sandbox. Pass what it needs as arguments ` +
+        `instead${astLocation.type === "method" ? " (or make it a static method)" : ""}.`
+    );
+  }
+
   const paramNames = extractParamNames(fn.params);
   const paramsSource = printParams(fn.params);
 
-  let closureVars: string[] = [];
-  if (isNested) {
-    closureVars = detectClosureVars(body, paramNames, ctx.currentScope);
+  // Functions of a "use sandbox" file don't need their own directive
+  const hasDirective =
+    body.stmts.length > 0 && isUseSandboxDirective(body.stmts[0]);
+  const bodyStmts = body.stmts.slice(hasDirective ? 1 : 0);
+  const free = findFreeVariables(bodyStmts, fn.params);
+
+  // Variables of enclosing functions are sent along with the arguments;
+  // module-level names are copied into the sandbox file instead
+  const closureVars = isNested
+    ? [...free.values]
+        .filter((name) => isDeclaredInFunctionScope(name, ctx.currentScope))
+        .sort()
+    : [];
+  // The codec can't send functions or classes, so they would arrive as
+  // undefined
+  for (const captured of closureVars) {
+    const kind = capturedFunctionKind(captured, ctx.currentScope);
+    if (kind) {
+      throw new SandboxTransformError(
+        `"use sandbox" function ${scopePath.join(".")} uses ${captured}, a ` +
+          `${kind} of an enclosing function, which can't be sent to the ` +
+          `sandbox. Declare it at module level so it's copied into the ` +
+          `sandbox${kind === '"use sandbox" function' ? "" : ", or inside the sandbox function"}.`
+      );
+    }
   }
 
-  const bodyStmts = body.stmts.slice(1);
+  const closureSet = new Set(closureVars);
+  const references = [...allNames(free)].filter(
+    (name) => !closureSet.has(name) && !isBuiltIn(name)
+  );
   const bodySource = bodyStmts.length > 0 ? printAst(bodyStmts) : "";
 
   // Use stable function ID based on file path + function name (not code content)
-  const fnId = generateFnId(ctx.filename, scopePath);
+  let fnId = generateFnId(ctx.filename, scopePath);
+  // Two anonymous functions in the same scope, for example
+  for (let n = 2; ctx.sandboxFunctions.some((f) => f.fnId === fnId); n++) {
+    fnId = generateFnId(ctx.filename, [...ctx.scopePath, `${name}${n}`]);
+  }
 
   const closureParam = closureVars.length > 0 ? "__closure" : "";
   const allParams = closureParam
     ? closureParam + (paramsSource ? ", " + paramsSource : "")
     : paramsSource;
 
-  let fullSource = `export async function ${fnId}(${allParams}) {\n`;
+  const isGenerator = fn.generator;
+
+  let fullSource = `export async function${isGenerator ? "*" : ""} ${fnId}(${allParams}) {\n`;
   if (closureVars.length > 0) {
     fullSource += `  const { ${closureVars.join(", ")} } = __closure;\n`;
   }
@@ -557,76 +851,68 @@ function collectSandboxFunction(
     scopePath,
     params: paramNames,
     closureVars,
+    references,
     bodySource,
     fullSource,
     isAsync: "async" in fn ? fn.async : true,
+    isGenerator,
     astLocation,
   });
 }
 
-function detectClosureVars(
-  body: BlockStatement,
-  params: string[],
-  parentScope: ScopeInfo
-): string[] {
-  const referenced = new Set<string>();
-  const locallyDeclared = new Set<string>(params);
-
-  function collectRefs(node: unknown): void {
-    if (!node || typeof node !== "object") return;
-
-    const n = node as Record<string, unknown>;
-
-    if (n.type === "VariableDeclaration") {
-      const decl = n as unknown as VariableDeclaration;
-      for (const d of decl.declarations) {
-        if (d.id.type === "Identifier") {
-          locallyDeclared.add(d.id.value);
-        }
-        if (d.init) collectRefs(d.init);
-      }
-      return;
-    }
-
-    if (n.type === "Identifier") {
-      const id = n as unknown as Identifier;
-      referenced.add(id.value);
-      return;
-    }
-
-    for (const key of Object.keys(n)) {
-      if (key === "span" || key === "type") continue;
-      const val = n[key];
-      if (Array.isArray(val)) {
-        for (const item of val) collectRefs(item);
-      } else if (val && typeof val === "object") {
-        collectRefs(val);
-      }
-    }
-  }
-
-  for (const stmt of body.stmts.slice(1)) {
-    collectRefs(stmt);
+function isDeclaredInFunctionScope(
+  name: string,
+  scope: ScopeInfo | null
+): boolean {
+  // The root scope is the module's
+  while (scope?.parent) {
+    if (scope.declared.has(name)) return true;
+    scope = scope.parent;
   }
+  return false;
+}
 
-  const closureVars: string[] = [];
-  for (const name of referenced) {
-    if (locallyDeclared.has(name)) continue;
-    if (isBuiltIn(name)) continue;
-    if (isDeclaredInScope(name, parentScope)) {
-      closureVars.push(name);
-    }
+/** What the innermost declaration of `name` is, if it's a function */
+function capturedFunctionKind(
+  name: string,
+  scope: ScopeInfo | null
+): FunctionKind | undefined {
+  while (scope?.parent) {
+    if (scope.declared.has(name)) return scope.functions.get(name);
+    scope = scope.parent;
   }
+  return undefined;
+}
 
-  return closureVars.sort();
+/** Value and type names alike, to find what to copy or import */
+function allNames(free: FreeVariables): Set<string> {
+  return new Set([...free.values, ...free.types]);
 }
 
-function isDeclaredInScope(name: string, scope: ScopeInfo | null): boolean {
-  while (scope) {
-    if (scope.declared.has(name)) return true;
-    scope = scope.parent;
+/**
+ * Whether a function body uses `this` or `super` of its own function, not
+ * counting nested functions and classes, which have their own.
+ */
+function usesThis(body: BlockStatement): boolean {
+  function visit(node: unknown): boolean {
+    if (!node || typeof node !== "object") return false;
+    if (Array.isArray(node)) return node.some(visit);
+
+    const n = node as Record<string, unknown>;
+    switch (n.type) {
+      case "ThisExpression":
+      case "Super":
+      case "SuperPropExpression":
+        return true;
+      case "FunctionDeclaration":
+      case "FunctionExpression":
+      case "ClassDeclaration":
+      case "ClassExpression":
+        return false;
+    }
+    return Object.keys(n).some((key) => key !== "span" && visit(n[key]));
   }
-  return false;
+  return visit(body.stmts);
 }
 
 function isBuiltIn(name: string): boolean {
@@ -678,6 +964,162 @@ function isBuiltIn(name: string): boolean {
   return builtins.has(name);
 }
 
+// ============================================================================
+// Module-level Declarations
+// ============================================================================
+
+/**
+ * A module-level statement that declares names sandbox code may use.
+ */
+interface ModuleDeclaration {
+  /** Source copied into the sandbox file */
+  source: string;
+  /** Names it uses, which may need copying too */
+  references: Set<string>;
+  /** Why the declaration can't be copied, if it can't */
+  unmovable?: string;
+}
+
+/**
+ * Map each module-level name to the statement that declares it. Imports
+ * aren't included: the sandbox file has its own.
+ */
+function collectModuleDeclarations(
+  module: Module
+): Map<string, ModuleDeclaration> {
+  const declarations = new Map<string, ModuleDeclaration>();
+
+  const add = (names: string[], node: unknown, unmovable?: string) => {
+    const declaration: ModuleDeclaration = {
+      source: printAst(node),
+      references: allNames(findFreeVariables([node as Statement])),
+      unmovable,
+    };
+    for (const name of names) declarations.set(name, declaration);
+  };
+
+  for (const item of module.body) {
+    // `export` is dropped: the sandbox file only exports sandbox functions
+    const decl =
+      item.type === "ExportDeclaration"
+        ? item.declaration
+        : item.type === "ExportDefaultDeclaration"
+          ? item.decl
+          : item;
+
+    switch (decl.type) {
+      case "FunctionDeclaration":
+      case "ClassDeclaration":
+        add([decl.identifier.value], decl);
+        break;
+      case "TsEnumDeclaration":
+      case "TsInterfaceDeclaration":
+      case "TsTypeAliasDeclaration":
+        add([decl.id.value], decl);
+        break;
+      case "FunctionExpression":
+      case "ClassExpression":
+        // export default function helper() {}
+        if (decl.identifier) {
+          add([decl.identifier.value], {
+            ...decl,
+            type:
+              decl.type === "FunctionExpression"
+                ? "FunctionDeclaration"
+                : "ClassDeclaration",
+            declare: false,
+          });
+        }
+        break;
+      case "VariableDeclaration":
+        add(
+          extractParamNames(decl.declarations.map((d) => d.id)),
+          decl,
+          decl.kind === "const"
+            ? undefined
+            : `it's declared with ${decl.kind}, and the sandbox would get its own copy of it`
+        );
+        break;
+    }
+  }
+
+  return declarations;
+}
+
+/** Locations of sandbox functions that are module-level bindings */
+const MODULE_LEVEL_LOCATIONS = new Set<AstLocation["type"]>([
+  "module-item",
+  "export-decl",
+  "var-declarator",
+  "export-var-declarator",
+]);
+
+/**
+ * Source of the module-level declarations the sandbox functions use,
+ * directly or through each other, in their original order; and every name
+ * the functions and those declarations use, to pick the imports to keep.
+ *
+ * @throws SandboxTransformError if one can't be copied
+ */
+function collectHoistedDeclarations(
+  fns: SandboxFunction[],
+  module: Module
+): { sources: string[]; references: Set<string> } {
+  const declarations = collectModuleDeclarations(module);
+  // Top-level sandbox functions are already in the sandbox file, renamed
+  const sandboxNames = new Map(
+    fns
+      .filter((fn) => MODULE_LEVEL_LOCATIONS.has(fn.astLocation.type))
+      .map((fn) => [fn.originalName, fn])
+  );
+
+  const hoisted = new Set<ModuleDeclaration>();
+  const aliases = new Set<SandboxFunction>();
+  const references = new Set(fns.flatMap((fn) => fn.references));
+  const queue = fns.flatMap((fn) =>
+    fn.references.map((name) => ({ name, via: [fn.scopePath.join(".")] }))
+  );
+
+  while (queue.length > 0) {
+    const { name, via } = queue.shift()!;
+
+    const sandboxFn = sandboxNames.get(name);
+    if (sandboxFn) {
+      aliases.add(sandboxFn);
+      continue;
+    }
+
+    const declaration = declarations.get(name);
+    if (!declaration || hoisted.has(declaration)) continue;
+
+    if (declaration.unmovable) {
+      const [fnName, ...helpers] = via;
+      const through = helpers.length > 0 ? ` (through ${helpers.join(" → ")})` : "";
+      throw new SandboxTransformError(
+        `"use sandbox" function ${fnName} uses ${name}${through}, which can't be ` +
+          `copied into the sandbox: ${declaration.unmovable}. Declare it with ` +
+          `const, or pass its value as an argument.`
+      );
+    }
+
+    hoisted.add(declaration);
+    for (const ref of declaration.references) {
+      references.add(ref);
+      queue.push({ name: ref, via: [...via, name] });
+    }
+  }
+
+  // Sets iterate in insertion order; restore the module's order
+  const ordered = [...new Set(declarations.values())].filter((d) =>
+    hoisted.has(d)
+  );
+  const sources = [
+    ...ordered.map((d) => d.source),
+    ...[...aliases].map((fn) => `const ${fn.originalName} = ${fn.fnId};`),
+  ];
+  return { sources, references };
+}
+
 // ============================================================================
 // AST Mutation & Code Generation
 // ============================================================================
@@ -712,9 +1154,11 @@ function parseArrowStubToAst(stubCode: string): ArrowFunctionExpression {
 }
 
 function generateStubCode(fn: SandboxFunction): string {
-  const { fnId, originalName, params, closureVars, isAsync, scopePath } = fn;
+  const { fnId, originalName, params, closureVars, isAsync } = fn;
 
-  const asyncKeyword = isAsync ? "async " : "";
+  // A generator stub must return the iterable itself, not a promise of it
+  const asyncKeyword = isAsync && !fn.isGenerator ? "async " : "";
+  const runner = getRunnerName(fn);
   const paramList = params.join(", ");
   const argsArray = params.length > 0 ? `[${params.join(", ")}]` : "[]";
 
@@ -723,21 +1167,30 @@ function generateStubCode(fn: SandboxFunction): string {
     closureArg = `, closureVars: { ${closureVars.join(", ")} }`;
   }
 
-  const isTopLevel = scopePath.length === 1;
+  if (fn.astLocation.type === "expression") {
+    return `(${paramList}) => ${runner}({
+  fnId: "${fnId}",
+  args: ${argsArray}${closureArg}
+})`;
+  }
 
-  if (isTopLevel) {
-    return `${asyncKeyword}function ${originalName}(${paramList}) {
-  return __sandbox_runSandboxFn({
+  // A method only takes the stub's params and body, so its name is a dummy
+  const name = fn.astLocation.type === "method" ? "_" : originalName;
+  return `${asyncKeyword}function ${name}(${paramList}) {
+  return ${runner}({
     fnId: "${fnId}",
     args: ${argsArray}${closureArg}
   });
 }`;
-  } else {
-    return `(${paramList}) => __sandbox_runSandboxFn({
-  fnId: "${fnId}",
-  args: ${argsArray}${closureArg}
-})`;
-  }
+}
+
+/**
+ * Runtime function a stub calls: generators stream their yielded values.
+ */
+function getRunnerName(fn: SandboxFunction): string {
+  return fn.isGenerator
+    ? "__sandbox_runSandboxGenerator"
+    : "__sandbox_runSandboxFn";
 }
 
 /**
@@ -748,9 +1201,6 @@ function applyAstMutations(
   sandboxFunctions: SandboxFunction[]
 ): void {
   for (const fn of sandboxFunctions) {
-    // Only handle top-level functions for now
-    if (fn.scopePath.length !== 1) continue;
-
     const stubCode = generateStubCode(fn);
     const loc = fn.astLocation;
 
@@ -773,10 +1223,11 @@ function applyAstMutations(
           "async function"
         );
         const stubModule = parseSync(
-          `export default ${wrappedStub.replace(
-            /^function/,
-            "async function"
-          )}`,
+          `export default ${
+            fn.isGenerator
+              ? wrappedStub.replace(/^function \w+/, "function")
+              : wrappedStub.replace(/^function/, "async function")
+          }`,
           { syntax: "ecmascript" }
         );
         module.body[loc.index] = stubModule.body[0];
@@ -785,7 +1236,7 @@ function applyAstMutations(
       case "var-declarator": {
         const varDecl = module.body[loc.moduleIndex] as VariableDeclaration;
         const stubArrow = parseArrowStubToAst(
-          `async (${fn.params.join(", ")}) => __sandbox_runSandboxFn({ fnId: "${
+          `${fn.isGenerator ? "" : "async "}(${fn.params.join(", ")}) => ${getRunnerName(fn)}({ fnId: "${
             fn.fnId
           }", args: [${fn.params.join(", ")}] })`
         );
@@ -796,13 +1247,27 @@ function applyAstMutations(
         const exportDecl = module.body[loc.moduleIndex] as ExportDeclaration;
         const varDecl = exportDecl.declaration as VariableDeclaration;
         const stubArrow = parseArrowStubToAst(
-          `async (${fn.params.join(", ")}) => __sandbox_runSandboxFn({ fnId: "${
+          `${fn.isGenerator ? "" : "async "}(${fn.params.join(", ")}) => ${getRunnerName(fn)}({ fnId: "${
             fn.fnId
           }", args: [${fn.params.join(", ")}] })`
         );
         varDecl.declarations[loc.declIndex].init = stubArrow;
         break;
       }
+      case "nested-decl": {
+        loc.stmts[loc.index] = parseStubToAst(stubCode);
+        break;
+      }
+      case "expression": {
+        (loc.parent as Record<string, unknown>)[loc.key] =
+          parseArrowStubToAst(stubCode);
+        break;
+      }
+      case "method": {
+        const { params, body, async, generator } = parseStubToAst(stubCode);
+        Object.assign(loc.fn, { params, body, async, generator });
+        break;
+      }
     }
   }
 }
@@ -811,24 +1276,18 @@ function applyAstMutations(
  * Add the runtime import to the module.
  */
 function addRuntimeImport(module: Module): void {
-  const importCode = `import { __runSandboxFn as __sandbox_runSandboxFn } from "@use-sandbox/core/runtime";`;
+  const importCode = `import { __runSandboxFn as __sandbox_runSandboxFn, __runSandboxGenerator as __sandbox_runSandboxGenerator } from "@use-sandbox/core/runtime";`;
   const importModule = parseSync(importCode, { syntax: "ecmascript" });
   module.body.unshift(importModule.body[0]);
 }
 
 /**
- * Reconstruct an import statement from AST.
+ * Reconstruct an import statement from AST, with only the given specifiers.
  */
 function reconstructImport(
-  item: import("@swc/core").ImportDeclaration
+  source: string,
+  specifiers: ImportSpecifier[]
 ): string {
-  const specifiers = item.specifiers;
-  const source = item.source.value;
-
-  if (specifiers.length === 0) {
-    return `import "${source}";`;
-  }
-
   const defaultImport: string[] = [];
   const namedImports: string[] = [];
   let namespaceImport = "";
@@ -864,9 +1323,24 @@ function reconstructImport(
 }
 
 /**
- * Extract imports for the sandbox file.
+ * Exports of @use-sandbox/core that sandbox code may use, by entry point.
+ */
+const SANDBOX_SAFE_CORE_EXPORTS = new Map([
+  ["$", "@use-sandbox/core/shell"],
+  ["getRunContext", "@use-sandbox/core/run-context"],
+]);
+
+/**
+ * Extract imports for the sandbox file: only the bindings sandbox code uses,
+ * so host-only dependencies stay out of the bundle.
  */
-function extractRelevantImports(module: Module): string[] {
+function extractRelevantImports(
+  module: Module,
+  references: Set<string>,
+  originalPath: string,
+  warnings: string[],
+  keepSideEffectImports = false
+): string[] {
   const imports: string[] = [];
 
   for (const item of module.body) {
@@ -875,16 +1349,47 @@ function extractRelevantImports(module: Module): string[] {
 
       const source = item.source.value;
 
+      if (item.specifiers.length === 0 && keepSideEffectImports) {
+        imports.push(`import "${source}";`);
+        continue;
+      }
+      if (item.specifiers.length === 0) {
+        // Nothing to go by: whether sandbox code needs its side effects
+        // can't be told, so it's left to the user
+        warnings.push(
+          `[use-sandbox] ${basename(originalPath)}: the side-effect import ` +
+            `"${source}" is not included in the sandbox bundle. If sandbox ` +
+            `code needs it, load it with \`await import("${source}")\` inside ` +
+            `the "use sandbox" function.`
+        );
+        continue;
+      }
+
+      const used = item.specifiers.filter(
+        (spec) =>
+          !(spec.type === "ImportSpecifier" && spec.isTypeOnly) &&
+          references.has(spec.local.value)
+      );
+      if (used.length === 0) continue;
+
       if (source === "@use-sandbox/core") {
-        for (const spec of item.specifiers) {
-          if (spec.type === "ImportSpecifier" && spec.local.value === "$") {
-            imports.push(`import { $ } from "@use-sandbox/core/shell";`);
+        // The main entry pulls in the host runtime; import the few helpers
+        // meant for sandbox code from their own entry points instead
+        for (const spec of used) {
+          if (spec.type !== "ImportSpecifier") continue;
+          const imported = spec.imported?.value ?? spec.local.value;
+          const entry = SANDBOX_SAFE_CORE_EXPORTS.get(imported);
+          if (entry) {
+            const local = spec.local.value;
+            const binding =
+              imported === local ? imported : `${imported} as ${local}`;
+            imports.push(`import { ${binding} } from "${entry}";`);
           }
         }
         continue;
       }
 
-      imports.push(reconstructImport(item));
+      imports.push(reconstructImport(source, used));
     }
   }
 
@@ -894,7 +1399,8 @@ function extractRelevantImports(module: Module): string[] {
 function generateSandboxFile(
   fns: SandboxFunction[],
   originalPath: string,
-  module: Module
+  module: Module,
+  warnings: string[]
 ): string {
   const lines: string[] = [
     `// Auto-generated sandbox file for ${basename(originalPath)}`,
@@ -902,10 +1408,23 @@ function generateSandboxFile(
     "",
   ];
 
-  const imports = extractRelevantImports(module);
+  // Helpers and constants from the original module the functions rely on
+  const hoisted = collectHoistedDeclarations(fns, module);
+
+  const imports = extractRelevantImports(
+    module,
+    hoisted.references,
+    originalPath,
+    warnings
+  );
   lines.push(...imports);
   lines.push("");
 
+  if (hoisted.sources.length > 0) {
+    lines.push(...hoisted.sources);
+    lines.push("");
+  }
+
   for (const fn of fns) {
     lines.push(fn.fullSource);
     lines.push("");
@@ -914,6 +1433,219 @@ function generateSandboxFile(
   return lines.join("\n");
 }
 
+// ============================================================================
+// File-level Directive
+// ============================================================================
+
+/**
+ * Whether the module starts with a "use sandbox" directive, like "use server".
+ */
+function hasFileDirective(module: Module): boolean {
+  for (const item of module.body) {
+    if (
+      item.type !== "ExpressionStatement" ||
+      item.expression.type !== "StringLiteral"
+    ) {
+      return false;
+    }
+    if (item.expression.value === "use sandbox") return true;
+  }
+  return false;
+}
+
+function isTypeDeclaration(node: { type: string }): boolean {
+  return (
+    node.type === "TsInterfaceDeclaration" ||
+    node.type === "TsTypeAliasDeclaration"
+  );
+}
+
+/**
+ * In a "use sandbox" file every export is a sandbox function: collect them
+ * all, without looking for directives in their bodies.
+ *
+ * @throws SandboxTransformError for exports that can't run in the sandbox
+ */
+function collectModuleSandboxFunctions(module: Module, ctx: WalkContext): void {
+  const file = basename(ctx.filename);
+  const notAsync = (name: string) =>
+    new SandboxTransformError(
+      `Only async functions can be exported from a "use sandbox" file, but ` +
+        `${file} exports ${name}. Make it an async function, or move it to ` +
+        `another file.`
+    );
+
+  const collect = (
+    fn: FunctionDeclaration | FunctionExpression | ArrowFunctionExpression,
+    name: string,
+    astLocation: AstLocation
+  ) => {
+    if (!fn.async) throw notAsync(name);
+    const body: BlockStatement =
+      fn.body?.type === "BlockStatement"
+        ? fn.body
+        : // async (x) => x * 2
+          ({
+            type: "BlockStatement",
+            span: fn.span,
+            ctxt: 0,
+            stmts: [
+              { type: "ReturnStatement", span: fn.span, argument: fn.body! },
+            ],
+          } as BlockStatement);
+    collectSandboxFunction(fn, body, name, ctx, astLocation);
+  };
+
+  module.body.forEach((item, index) => {
+    switch (item.type) {
+      case "ExportDeclaration": {
+        const decl = item.declaration;
+        if (decl.type === "FunctionDeclaration") {
+          // Overload signatures have no body
+          if (decl.body) {
+            collect(decl, decl.identifier.value, { type: "export-decl", index });
+          }
+        } else if (decl.type === "VariableDeclaration") {
+          decl.declarations.forEach((d, declIndex) => {
+            const name = d.id.type === "Identifier" ? d.id.value : "a pattern";
+            if (
+              d.id.type !== "Identifier" ||
+              (d.init?.type !== "ArrowFunctionExpression" &&
+                d.init?.type !== "FunctionExpression")
+            ) {
+              throw notAsync(name);
+            }
+            collect(d.init, name, {
+              type: "export-var-declarator",
+              moduleIndex: index,
+              declIndex,
+            });
+          });
+        } else if (!isTypeDeclaration(decl)) {
+          throw notAsync("id" in decl ? decl.id.value : decl.identifier.value);
+        }
+        break;
+      }
+      case "ExportDefaultDeclaration":
+        if (item.decl.type === "FunctionExpression") {
+          collect(item.decl, "default", { type: "export-default", index });
+        } else if (!isTypeDeclaration(item.decl)) {
+          throw notAsync("a default class");
+        }
+        break;
+      case "ExportDefaultExpression":
+        throw notAsync("a default value");
+      case "ExportNamedDeclaration":
+      case "ExportAllDeclaration":
+        if (item.type === "ExportNamedDeclaration" && item.typeOnly) break;
+        throw new SandboxTransformError(
+          `${file} has a "use sandbox" directive, so it can't use export ` +
+            `lists or re-exports. Put \`export\` on each async function instead.`
+        );
+    }
+  });
+}
+
+// Local name for `export default async function () {}` in the sandbox file
+const SANDBOX_DEFAULT_NAME = "__sandbox_default";
+
+/**
+ * The sandbox file of a "use sandbox" module: all of its code, with each
+ * exported function exported under its fnId instead.
+ */
+function generateSandboxModuleFile(
+  fns: SandboxFunction[],
+  originalPath: string,
+  module: Module,
+  warnings: string[]
+): string {
+  const items: unknown[] = [];
+
+  for (const item of module.body) {
+    switch (item.type) {
+      case "ImportDeclaration":
+      case "ExportNamedDeclaration":
+        break;
+      case "ExpressionStatement":
+        if (!isUseSandboxDirective(item)) items.push(item);
+        break;
+      case "ExportDeclaration":
+        items.push(item.declaration);
+        break;
+      case "ExportDefaultDeclaration":
+        if (item.decl.type === "FunctionExpression") {
+          items.push({
+            ...item.decl,
+            type: "FunctionDeclaration",
+            identifier: item.decl.identifier ?? {
+              type: "Identifier",
+              span: item.decl.span,
+              value: SANDBOX_DEFAULT_NAME,
+              optional: false,
+              ctxt: 0,
+            },
+            declare: false,
+          });
+        }
+        break;
+      default:
+        items.push(item);
+    }
+  }
+
+  const exports = fns.map((fn) => {
+    let local = fn.originalName;
+    if (fn.astLocation.type === "export-default") {
+      const item = module.body[fn.astLocation.index] as ExportDefaultDeclaration;
+      local =
+        (item.decl as FunctionExpression).identifier?.value ??
+        SANDBOX_DEFAULT_NAME;
+    }
+    return `${local} as ${fn.fnId}`;
+  });
+
+  // The whole module runs in the sandbox, side-effect imports included
+  const imports = extractRelevantImports(
+    module,
+    allNames(findFreeVariables(items as ModuleItem[])),
+    originalPath,
+    warnings,
+    true
+  );
+
+  return [
+    `// Auto-generated sandbox file for ${basename(originalPath)}`,
+    `// Do not edit directly - regenerated on build`,
+    "",
+    ...imports,
+    "",
+    printAst(items),
+    "",
+    `export { ${exports.join(", ")} };`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * After the exports of a "use sandbox" module are stubbed, drop the rest:
+ * it only runs in the sandbox, so the host never loads its dependencies.
+ * Types are kept for code that imports them.
+ */
+function removeSandboxOnlyCode(module: Module): void {
+  module.body = module.body.filter((item) => {
+    switch (item.type) {
+      case "ExportDeclaration":
+      case "ExportDefaultDeclaration":
+        return true;
+      case "ImportDeclaration":
+      case "ExportNamedDeclaration":
+        return item.typeOnly;
+      default:
+        return isTypeDeclaration(item);
+    }
+  });
+}
+
 // ============================================================================
 // Main Transform
 // ============================================================================
@@ -928,6 +1660,7 @@ export async function transform(
       hasSandboxFunctions: false,
       sandboxFilePath: null,
       sandboxFileContent: null,
+      warnings: [],
     };
   }
 
@@ -947,13 +1680,18 @@ export async function transform(
     .replace(/^.*?\/src\//, "src/"); // Or from src/ onwards
 
   const ctx: WalkContext = {
-    currentScope: { declared: new Set(), parent: null },
+    currentScope: { declared: new Set(), functions: new Map(), parent: null },
     scopePath: [],
     sandboxFunctions: [],
     filename: normalizedFilename,
   };
 
-  walkModule(module, ctx);
+  const isSandboxModule = hasFileDirective(module);
+  if (isSandboxModule) {
+    collectModuleSandboxFunctions(module, ctx);
+  } else {
+    walkModule(module, ctx);
+  }
 
   if (ctx.sandboxFunctions.length === 0) {
     return {
@@ -961,18 +1699,21 @@ export async function transform(
       hasSandboxFunctions: false,
       sandboxFilePath: null,
       sandboxFileContent: null,
+      warnings: [],
     };
   }
 
   // Generate .sandbox.ts content BEFORE mutating the module
-  const sandboxContent = generateSandboxFile(
-    ctx.sandboxFunctions,
-    filename,
-    module
-  );
+  const warnings: string[] = [];
+  const sandboxContent = (
+    isSandboxModule ? generateSandboxModuleFile : generateSandboxFile
+  )(ctx.sandboxFunctions, filename, module, warnings);
 
   // Mutate the AST to replace sandbox functions with stubs
   applyAstMutations(module, ctx.sandboxFunctions);
+  if (isSandboxModule) {
+    removeSandboxOnlyCode(module);
+  }
 
   // Add runtime import
   addRuntimeImport(module);
@@ -987,6 +1728,7 @@ export async function transform(
     hasSandboxFunctions: true,
     sandboxFilePath,
     sandboxFileContent: sandboxContent,
+    warnings,
   };
 }
 
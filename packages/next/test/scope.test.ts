@@ -0,0 +1,453 @@
+import { parseSync } from "@swc/core";
+import { describe, expect, it } from "vitest";
+import { findFreeVariables } from "../src/scope";
+import { transform } from "../src/transformer";
+
+/** Free names of `source`, as a module, sorted for stable snapshots */
+function free(source: string) {
+  const module = parseSync(source, { syntax: "typescript", tsx: true });
+  const { values, types } = findFreeVariables(module.body);
+  return { values: [...values].sort(), types: [...types].sort() };
+}
+
+/** Generated sandbox file of `source`, with the warnings it came with */
+async function sandboxFile(source: string) {
+  const result = await transform(source, "app/route.ts");
+  return { file: result.sandboxFileContent, warnings: result.warnings };
+}
+
+/** Variables each nested sandbox function of `source` captures */
+async function captures(source: string) {
+  const result = await transform(source, "app/route.ts");
+  const fns = result.sandboxFileContent!.matchAll(
+    /export async function ([\w$]+?)_\w{8}\((__closure)?[^)]*\) \{\n(?: {2}const \{ (.*) \} = __closure;)?/g
+  );
+  return Object.fromEntries(
+    [...fns].map(([, name, , vars]) => [name, vars?.split(", ") ?? []])
+  );
+}
+
+describe("findFreeVariables", () => {
+  it("resolves shadowed names to the innermost declaration", () => {
+    expect(
+      free(`
+        const a = 1;
+        function f(a) { return a + b; }
+        { let b = 2; const c = a + b; }
+        use(c);
+      `)
+    ).toMatchSnapshot();
+  });
+
+  it("declares the names of destructuring params, but visits defaults", () => {
+    expect(
+      free(`
+        function f({ a, b: [c, ...d], e = fallback }, [g = a] = list) {
+          return a + c + d + e + g + h;
+        }
+      `)
+    ).toMatchSnapshot();
+  });
+
+  it("scopes catch params to the handler", () => {
+    expect(
+      free(`
+        try { run(); } catch ({ message, cause: err }) { log(message, err); }
+        report(message, err);
+      `)
+    ).toMatchSnapshot();
+  });
+
+  it("ignores labels", () => {
+    expect(
+      free(`
+        outer: for (const row of rows) {
+          inner: for (const cell of row) {
+            if (cell) continue outer;
+            break inner;
+          }
+        }
+      `)
+    ).toMatchSnapshot();
+  });
+
+  it("reads object shorthand properties, but not keys or members", () => {
+    expect(
+      free(`
+        const o = { short, key: value, [computed]: 1, method() {} };
+        o.member;
+        o[index];
+        ({ assigned, renamed: target, withDefault = 1 } = source);
+      `)
+    ).toMatchSnapshot();
+  });
+
+  it("gives nested functions their own scope", () => {
+    expect(
+      free(`
+        function outer(x) {
+          const inner = (y) => x + y + z;
+          const named = function self() { return self() + arguments[0]; };
+          return [inner, named, y];
+        }
+      `)
+    ).toMatchSnapshot();
+  });
+
+  it("hoists var and function declarations to the function", () => {
+    expect(
+      free(`
+        function f() {
+          helper(v);
+          if (cond) { var v = 1; }
+          function helper() { return w; }
+        }
+        { var blockVar = 1; }
+        use(blockVar, helper);
+      `)
+    ).toMatchSnapshot();
+  });
+
+  it("visits class members, except their names", () => {
+    expect(
+      free(`
+        class A extends Base implements Shape {
+          static count = initial;
+          #secret = hidden;
+          [key]: Value = 1;
+          constructor(private client: Client) { super(); client.go(); }
+          method(arg) { return A + arg + this.#secret; }
+          get prop() { return getterValue; }
+          static { setup(A); }
+        }
+      `)
+    ).toMatchSnapshot();
+  });
+
+  it("resolves a let used before its declaration to it", () => {
+    expect(
+      free(`
+        function f() {
+          const read = () => later;
+          use(later);
+          let later = 1;
+          class C { m() { return Later; } }
+          const Later = C;
+        }
+      `)
+    ).toMatchSnapshot();
+  });
+
+  it("keeps type references apart from values", () => {
+    expect(
+      free(`
+        function f<T>(a: T, b: Options<Item>): Result {
+          type Local = number;
+          const c: Local = a as Cast;
+          return { c, size: b.size } satisfies Shape<typeof config>;
+        }
+      `)
+    ).toMatchSnapshot();
+  });
+});
+
+describe("closure capture", () => {
+  it("captures only variables of enclosing functions", async () => {
+    expect(
+      await captures(`
+        const config = {};
+        export async function POST(req: Request) {
+          const { sessionId, options: { limit } } = await req.json();
+          let count = 0;
+          try {
+            run();
+          } catch (error) {
+            const report = async (extra: string) => {
+              "use sandbox";
+              return [sessionId, limit, error, extra, config, count];
+            };
+            return report("x");
+          }
+        }
+      `)
+    ).toMatchSnapshot();
+  });
+
+  it("doesn't capture names the sandbox function declares itself", async () => {
+    expect(
+      await captures(`
+        export async function GET(items: string[], label: string) {
+          const process = async (label: string) => {
+            "use sandbox";
+            const items = [label];
+            for (const item of items) {
+              loop: while (item) break loop;
+            }
+            return { items, label, label2: label };
+          };
+          return process(label);
+        }
+      `)
+    ).toMatchSnapshot();
+  });
+
+  it("rejects captured functions, which can't be sent", async () => {
+    await expect(
+      captures(`
+        export async function POST() {
+          const format = (n: number) => n.toFixed(2);
+          const total = async (n: number) => {
+            "use sandbox";
+            return format(n);
+          };
+          return total(1);
+        }
+      `)
+    ).rejects.toThrow(
+      '"use sandbox" function POST.total uses format, a function of an enclosing function'
+    );
+  });
+
+  it("rejects captured classes, which can't be sent either", async () => {
+    for (const declaration of [
+      "class Local {}",
+      "const Local = class {};",
+    ]) {
+      await expect(
+        captures(`
+          export async function POST() {
+            ${declaration}
+            const make = async () => {
+              "use sandbox";
+              return new Local();
+            };
+            return make();
+          }
+        `)
+      ).rejects.toThrow(
+        '"use sandbox" function POST.make uses Local, a class of an enclosing function'
+      );
+    }
+  });
+
+  it("rejects captured sandbox functions", async () => {
+    await expect(
+      captures(`
+        export async function POST() {
+          async function build() {
+            "use sandbox";
+          }
+          async function deploy() {
+            "use sandbox";
+            await build();
+          }
+          return deploy();
+        }
+      `)
+    ).rejects.toThrow('uses build, a "use sandbox" function of an enclosing function');
+  });
+
+  it("captures a shadowed function name by its innermost value", async () => {
+    expect(
+      await captures(`
+        export async function POST() {
+          function format() {}
+          {
+            const format = "json";
+            const run = async () => {
+              "use sandbox";
+              return format;
+            };
+            return run();
+          }
+        }
+      `)
+    ).toMatchSnapshot();
+  });
+});
+
+describe("module-level declarations", () => {
+  it("copies the helpers, classes, enums and consts sandbox code uses", async () => {
+    const { file } = await sandboxFile(`
+      enum Color { Red, Green }
+      const LIMIT = 10;
+      const DEFAULTS = { color: Color.Red, limit: LIMIT };
+      interface Options { limit: number }
+      class Counter { n = 0; add() { return ++this.n; } }
+      function format(n: number) { return pad(String(n)); }
+      function pad(s: string) { return s.padStart(LIMIT); }
+      function hostOnly() { return unused; }
+      const unused = 1;
+
+      export async function run(n: number, options: Options) {
+        "use sandbox";
+        return [format(n), new Counter().add(), DEFAULTS, options.limit];
+      }
+    `);
+
+    expect(file).toMatchSnapshot();
+    expect(file).not.toContain("hostOnly");
+    expect(file).not.toContain("unused");
+  });
+
+  it("calls other sandbox functions of the file directly", async () => {
+    const { file } = await sandboxFile(`
+      export async function build() {
+        "use sandbox";
+        return "built";
+      }
+      function deployAll() { return build(); }
+      export async function deploy() {
+        "use sandbox";
+        return deployAll();
+      }
+    `);
+
+    expect(file).toMatchSnapshot();
+  });
+
+  it.each(["let", "var"])(
+    "rejects a module-level %s, which the sandbox would copy",
+    async (kind) => {
+      await expect(
+        sandboxFile(`
+          ${kind} count = 0;
+          export async function next() {
+            "use sandbox";
+            return count++;
+          }
+        `)
+      ).rejects.toThrow(
+        `"use sandbox" function next uses count, which can't be copied into ` +
+          `the sandbox: it's declared with ${kind}, and the sandbox would get ` +
+          `its own copy of it. Declare it with const, or pass its value as an argument.`
+      );
+    }
+  );
+
+  it("names the helpers that lead to an unmovable declaration", async () => {
+    await expect(
+      sandboxFile(`
+        let cache = new Map();
+        function lookup(key: string) { return cache.get(key); }
+        function load(key: string) { return lookup(key); }
+        export async function run() {
+          "use sandbox";
+          return load("a");
+        }
+      `)
+    ).rejects.toThrow(
+      '"use sandbox" function run uses cache (through load → lookup)'
+    );
+  });
+});
+
+describe("sandbox file imports", () => {
+  it("keeps only the imports sandbox code and its helpers use", async () => {
+    const { file, warnings } = await sandboxFile(`
+      import { streamText } from "ai";
+      import { gateway } from "@ai-sdk/gateway";
+      import z, { ZodError } from "zod";
+      import * as path from "path";
+      import { readFile as read, writeFile } from "fs/promises";
+      import type { Stats } from "fs";
+      import { type Dirent, existsSync } from "fs";
+      import { $, defineSandbox } from "@use-sandbox/core";
+
+      const schema = z.string();
+      function resolve(name: string) { return path.join("/tmp", name); }
+
+      export const sandbox = defineSandbox();
+      export async function POST() {
+        return streamText({ model: gateway("x"), prompt: await run("a") });
+      }
+      async function run(name: string) {
+        "use sandbox";
+        const file = resolve(schema.parse(name));
+        // Types are erased when bundling, so their imports aren't needed
+        const stats: Stats | Dirent | null = null;
+        await $\`ls\`;
+        return existsSync(file) ? read(file, "utf-8") : stats;
+      }
+    `);
+
+    expect(file).toMatchSnapshot();
+    expect(warnings).toEqual([]);
+  });
+
+  it("leaves side-effect imports out, with a warning", async () => {
+    const { file, warnings } = await sandboxFile(`
+      import "./instrumentation";
+      export async function run() {
+        "use sandbox";
+        return 1;
+      }
+    `);
+
+    expect(file).not.toContain("instrumentation");
+    expect(warnings).toEqual([
+      '[use-sandbox] route.ts: the side-effect import "./instrumentation" is ' +
+        "not included in the sandbox bundle. If sandbox code needs it, load " +
+        'it with `await import("./instrumentation")` inside the "use sandbox" function.',
+    ]);
+  });
+});
+
+describe('"use sandbox" files', () => {
+  it("makes every export a sandbox function and keeps the rest in the sandbox", async () => {
+    const result = await transform(
+      `
+      "use sandbox";
+      import "./polyfills";
+      import { readFile } from "fs/promises";
+      import type { Stats } from "fs";
+
+      const ROOT = "/workspace";
+      function resolve(name: string) { return \`\${ROOT}/\${name}\`; }
+
+      export interface Entry { name: string; stats?: Stats }
+      export async function read(name: string) {
+        return readFile(resolve(name), "utf-8");
+      }
+      export const list = async (dir: string): Promise<Entry[]> => [{ name: dir }];
+      export default async function () {
+        return read("index.ts");
+      }
+    `,
+      "lib/files.ts"
+    );
+
+    expect(result.code).toMatchSnapshot();
+    expect(result.sandboxFileContent).toMatchSnapshot();
+    expect(result.warnings).toEqual([]);
+  });
+
+  it.each([
+    ["export function sync() {}", "sync"],
+    ["export const limit = 10;", "limit"],
+    ["export const sync = () => 1;", "sync"],
+    ["export class Client {}", "Client"],
+    ["export default class {}", "a default class"],
+    ["export default 42;", "a default value"],
+  ])("rejects exports that aren't async functions: %s", async (code, name) => {
+    await expect(
+      transform(`"use sandbox";\n${code}`, "lib/files.ts")
+    ).rejects.toThrow(
+      `Only async functions can be exported from a "use sandbox" file, but ` +
+        `files.ts exports ${name}. Make it an async function, or move it to ` +
+        `another file.`
+    );
+  });
+
+  it.each([
+    'export { read } from "./read";',
+    'export * from "./read";',
+    "async function read() {}\nexport { read };",
+  ])("rejects export lists and re-exports: %s", async (code) => {
+    await expect(
+      transform(`"use sandbox";\n${code}`, "lib/files.ts")
+    ).rejects.toThrow(
+      'files.ts has a "use sandbox" directive, so it can\'t use export lists or re-exports.'
+    );
+  });
+});
@@ -0,0 +1,499 @@
+/**
+ * Value codec shared by the host runtime and the in-sandbox runner.
+ *
+ * Encodes values into JSON-safe trees that round-trip what JSON.stringify
+ * mangles: undefined, NaN/±Infinity/-0, BigInt, Date, RegExp, Map, Set,
+ * Buffer, typed arrays, ArrayBuffer, Error (with cause and custom fields),
+ * plus shared and circular references. Plain data encodes to plain JSON.
+ *
+ * Tagged nodes look like `{ "$t": tag, "v": data, "id"?: n }`. An `id` is
+ * only emitted for objects reachable more than once; later occurrences are
+ * encoded as `{ "$t": "Ref", "v": id }`.
+ *
+ * IMPORTANT: createCodec() is embedded into RUNNER_SCRIPT via toString(),
+ * so it must stay self-contained (no references to module-level bindings).
+ */
+
+/**
+ * Serializer for a custom class. Register the same serializer (by name) on
+ * the host and in the sandbox, e.g. from a module both sides import.
+ */
+export interface CustomSerializer<T = unknown, D = unknown> {
+  /** Unique name used to find the serializer when decoding */
+  name: string;
+  /** Whether this serializer handles the value */
+  test(value: unknown): boolean;
+  /** Convert to data; the result may itself contain any supported value */
+  serialize(value: T): D;
+  /** Rebuild the value from the data returned by `serialize` */
+  deserialize(data: D): T;
+}
+
+export interface Codec {
+  encode(value: unknown): unknown;
+  decode(data: unknown): unknown;
+  registerSerializer(serializer: CustomSerializer): void;
+}
+
+// ============================================================================
+// Encoded Trees
+// ============================================================================
+
+/** JSON data, with tagged nodes for everything JSON can't hold */
+type EncodedValue =
+  | null
+  | boolean
+  | number
+  | string
+  | EncodedValue[]
+  | EncodedProps
+  | TaggedNode;
+
+type EncodedProps = { [key: string]: EncodedValue };
+
+interface EncodedError {
+  name: string;
+  message: string;
+  stack?: string;
+  props: EncodedProps;
+  cause?: EncodedValue;
+}
+
+/** Objects that can be reached more than once carry an `id` */
+type TaggedNode =
+  | { $t: "undefined" }
+  | { $t: "number"; v: string }
+  | { $t: "bigint"; v: string }
+  | { $t: "Ref"; v: number }
+  | { $t: "Date"; id?: number; v: string | null }
+  | { $t: "RegExp"; id?: number; v: [source: string, flags: string] }
+  | { $t: "Buffer"; id?: number; v: string }
+  | { $t: "ArrayBuffer"; id?: number; v: string }
+  | { $t: "TypedArray"; id?: number; v: [name: string, data: string] }
+  | { $t: "Map"; id?: number; v: [EncodedValue, EncodedValue][] }
+  | { $t: "Set"; id?: number; v: EncodedValue[] }
+  | { $t: "Array"; id?: number; v: EncodedValue[] }
+  | { $t: "Object"; id?: number; v: EncodedProps }
+  | { $t: "Error"; id?: number; v: EncodedError }
+  | { $t: "Custom"; n: string; v: EncodedValue };
+
+/** What a custom serializer or toJSON() turned an object into */
+interface Replacement {
+  name?: string;
+  data: unknown;
+}
+
+type Props = Record<PropertyKey, unknown>;
+
+export function createCodec(): Codec {
+  // Shared through globalThis so registrations made by a bundled copy of
+  // this module are visible to the runner's embedded copy (and vice versa)
+  const REGISTRY_KEY = Symbol.for("@use-sandbox/serializers");
+
+  // Constructors a decoded name may pick; anything else from the wire is
+  // refused (typed arrays) or becomes a plain Error
+  const TYPED_ARRAYS = new Map(
+    [
+      Int8Array,
+      Uint8Array,
+      Uint8ClampedArray,
+      Int16Array,
+      Uint16Array,
+      Int32Array,
+      Uint32Array,
+      Float32Array,
+      Float64Array,
+      BigInt64Array,
+      BigUint64Array,
+      DataView,
+    ].map((Ctor): [string, new (buffer: ArrayBuffer) => ArrayBufferView] => [
+      Ctor.name,
+      Ctor,
+    ])
+  );
+  const ERRORS = new Map(
+    [
+      Error,
+      EvalError,
+      RangeError,
+      ReferenceError,
+      SyntaxError,
+      TypeError,
+      URIError,
+    ].map((Ctor): [string, new (message?: string) => Error] => [
+      Ctor.name,
+      Ctor,
+    ])
+  );
+
+  function getRegistry(): Map<string, CustomSerializer> {
+    const g = globalThis as { [REGISTRY_KEY]?: Map<string, CustomSerializer> };
+    return (g[REGISTRY_KEY] ??= new Map());
+  }
+
+  function registerSerializer(serializer: CustomSerializer): void {
+    getRegistry().set(serializer.name, serializer);
+  }
+
+  function toBase64(view: ArrayBufferView | ArrayBuffer): string {
+    return ArrayBuffer.isView(view)
+      ? Buffer.from(view.buffer, view.byteOffset, view.byteLength).toString(
+          "base64"
+        )
+      : Buffer.from(view).toString("base64");
+  }
+
+  function fromBase64(text: string): ArrayBuffer {
+    const bytes = Buffer.from(text, "base64");
+    return bytes.buffer.slice(
+      bytes.byteOffset,
+      bytes.byteOffset + bytes.byteLength
+    ) as ArrayBuffer;
+  }
+
+  function encode(value: unknown): unknown {
+    const seen = new Set<object>();
+    const shared = new Set<object>();
+    const ids = new Map<object, number>();
+    // Custom serializer / toJSON output, computed once per object
+    const replaced = new Map<object, Replacement | null>();
+    const replacing = new Set<object>();
+
+    function replacement(v: object): Replacement | null {
+      if (replaced.has(v)) return replaced.get(v)!;
+      let result: Replacement | null = null;
+      for (const serializer of getRegistry().values()) {
+        if (serializer.test(v)) {
+          result = { name: serializer.name, data: serializer.serialize(v) };
+          break;
+        }
+      }
+      // Honour toJSON like JSON.stringify does (Date and Buffer have tags)
+      const { toJSON } = v as { toJSON?: unknown };
+      if (
+        !result &&
+        !(v instanceof Date) &&
+        !ArrayBuffer.isView(v) &&
+        typeof toJSON === "function"
+      ) {
+        result = { data: toJSON.call(v) };
+      }
+      replaced.set(v, result);
+      return result;
+    }
+
+    // Pass 1: find objects reachable more than once (shared or circular)
+    function scan(v: unknown): void {
+      if (v === null || typeof v !== "object") return;
+      if (seen.has(v)) {
+        shared.add(v);
+        return;
+      }
+      seen.add(v);
+
+      const r = replacement(v);
+      if (r) {
+        scan(r.data);
+        return;
+      }
+      if (v instanceof Map) {
+        for (const [k, x] of v) {
+          scan(k);
+          scan(x);
+        }
+        return;
+      }
+      if (v instanceof Set || Array.isArray(v)) {
+        for (const x of v) scan(x);
+        return;
+      }
+      if (v instanceof Error && "cause" in v) {
+        scan(v.cause);
+      }
+      for (const key of Object.keys(v)) scan((v as Props)[key]);
+    }
+
+    // Pass 2: emit the tree, giving shared objects an id on first sight
+    function emit(v: unknown): EncodedValue {
+      switch (typeof v) {
+        case "undefined":
+        case "function":
+        case "symbol":
+          return { $t: "undefined" };
+        case "bigint":
+          return { $t: "bigint", v: v.toString() };
+        case "number":
+          if (Number.isNaN(v) || !Number.isFinite(v) || Object.is(v, -0)) {
+            return { $t: "number", v: Object.is(v, -0) ? "-0" : String(v) };
+          }
+          return v;
+        case "string":
+        case "boolean":
+          return v;
+      }
+      if (v === null || typeof v !== "object") return null;
+
+      const r = replaced.get(v);
+      if (r) {
+        if (replacing.has(v)) {
+          throw new TypeError(
+            "Cannot serialize a circular reference through a custom serializer or toJSON()"
+          );
+        }
+        replacing.add(v);
+        try {
+          const data = emit(r.data);
+          return r.name !== undefined ? { $t: "Custom", n: r.name, v: data } : data;
+        } finally {
+          replacing.delete(v);
+        }
+      }
+
+      const ref = ids.get(v);
+      if (ref !== undefined) return { $t: "Ref", v: ref };
+
+      let id: number | undefined;
+      if (shared.has(v)) {
+        id = ids.size;
+        ids.set(v, id);
+      }
+      const tag = <N extends TaggedNode>(node: N): N =>
+        id === undefined ? node : { ...node, id };
+
+      if (v instanceof Date) {
+        return tag({
+          $t: "Date",
+          v: Number.isNaN(v.getTime()) ? null : v.toISOString(),
+        });
+      }
+      if (v instanceof RegExp) {
+        return tag({ $t: "RegExp", v: [v.source, v.flags] });
+      }
+      if (Buffer.isBuffer(v)) {
+        return tag({ $t: "Buffer", v: toBase64(v) });
+      }
+      if (ArrayBuffer.isView(v)) {
+        return tag({ $t: "TypedArray", v: [v.constructor.name, toBase64(v)] });
+      }
+      if (v instanceof ArrayBuffer) {
+        return tag({ $t: "ArrayBuffer", v: toBase64(v) });
+      }
+      if (v instanceof Map) {
+        return tag({
+          $t: "Map",
+          v: Array.from(v, ([k, x]): [EncodedValue, EncodedValue] => [
+            emit(k),
+            emit(x),
+          ]),
+        });
+      }
+      if (v instanceof Set) {
+        return tag({ $t: "Set", v: Array.from(v, emit) });
+      }
+      if (v instanceof Error) {
+        const data: EncodedError = {
+          name: v.name,
+          message: v.message,
+          stack: v.stack,
+          props: emitProps(v),
+        };
+        if ("cause" in v) data.cause = emit(v.cause);
+        return tag({ $t: "Error", v: data });
+      }
+      if (Array.isArray(v)) {
+        // Array.from turns holes into undefined, which is preserved
+        const items = Array.from(v, emit);
+        return id === undefined ? items : tag({ $t: "Array", v: items });
+      }
+
+      const props = emitProps(v);
+      return id === undefined && !("$t" in props)
+        ? props
+        : tag({ $t: "Object", v: props });
+    }
+
+    function emitProps(v: object): EncodedProps {
+      const out: EncodedProps = {};
+      for (const key of Object.keys(v)) {
+        const x = (v as Props)[key];
+        // Methods are dropped, as with JSON.stringify
+        if (typeof x === "function" || typeof x === "symbol") continue;
+        out[key] = emit(x);
+      }
+      return out;
+    }
+
+    scan(value);
+    return emit(value);
+  }
+
+  function decode(data: unknown): unknown {
+    const refs = new Map<number, unknown>();
+
+    function decodeProps(target: object, props: EncodedProps): void {
+      for (const key of Object.keys(props)) {
+        // Defined rather than assigned, so "__proto__" is an ordinary key
+        // instead of replacing the prototype
+        Object.defineProperty(target, key, {
+          value: dec(props[key]),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+    }
+
+    function dec(d: unknown): unknown {
+      if (d === null || typeof d !== "object") return d;
+      if (Array.isArray(d)) return d.map(dec);
+      if (typeof (d as { $t?: unknown }).$t !== "string") {
+        const out = {};
+        decodeProps(out, d as EncodedProps);
+        return out;
+      }
+
+      const node = d as TaggedNode;
+      const id = "id" in node ? node.id : undefined;
+      // Register containers before decoding children so cycles resolve
+      const keep = <T>(x: T): T => {
+        if (id !== undefined) refs.set(id, x);
+        return x;
+      };
+
+      switch (node.$t) {
+        case "undefined":
+          return undefined;
+        case "number":
+          return Number(node.v);
+        case "bigint":
+          return BigInt(node.v);
+        case "Ref":
+          return refs.get(node.v);
+        case "Date":
+          return keep(new Date(node.v ?? NaN));
+        case "RegExp":
+          return keep(new RegExp(node.v[0], node.v[1]));
+        case "Buffer":
+          return keep(Buffer.from(node.v, "base64"));
+        case "ArrayBuffer":
+          return keep(fromBase64(node.v));
+        case "TypedArray": {
+          const [name, bytes] = node.v;
+          const Ctor = TYPED_ARRAYS.get(name);
+          if (!Ctor) {
+            throw new TypeError(`Cannot decode unknown typed array "${name}"`);
+          }
+          return keep(new Ctor(fromBase64(bytes)));
+        }
+        case "Map": {
+          const map = keep(new Map());
+          for (const [k, x] of node.v) map.set(dec(k), dec(x));
+          return map;
+        }
+        case "Set": {
+          const set = keep(new Set());
+          for (const x of node.v) set.add(dec(x));
+          return set;
+        }
+        case "Array": {
+          const arr = keep([] as unknown[]);
+          for (const x of node.v) arr.push(dec(x));
+          return arr;
+        }
+        case "Object": {
+          const obj = keep({});
+          decodeProps(obj, node.v);
+          return obj;
+        }
+        case "Error": {
+          const v = node.v;
+          // Rebuild built-in subclasses (TypeError, ...) when we can
+          const Ctor = ERRORS.get(v.name) ?? Error;
+          const err = keep(new Ctor(v.message));
+          if (err.name !== v.name) {
+            Object.defineProperty(err, "name", {
+              value: v.name,
+              writable: true,
+              configurable: true,
+            });
+          }
+          if (v.stack !== undefined) err.stack = v.stack;
+          if ("cause" in v) {
+            Object.defineProperty(err, "cause", {
+              value: dec(v.cause),
+              writable: true,
+              configurable: true,
+            });
+          }
+          decodeProps(err, v.props ?? {});
+          return err;
+        }
+        case "Custom": {
+          const serializer = getRegistry().get(node.n);
+          if (!serializer) {
+            throw new TypeError(
+              `No serializer registered for "${node.n}". ` +
+                `Call registerSerializer() on both the host and in the sandbox.`
+            );
+          }
+          return serializer.deserialize(dec(node.v));
+        }
+        default:
+          throw new TypeError(
+            `Cannot decode unknown tag "${(node as { $t: string }).$t}"`
+          );
+      }
+    }
+
+    return dec(data);
+  }
+
+  return { encode, decode, registerSerializer };
+}
+
+const codec = createCodec();
+
+/**
+ * Encode a value into a JSON-safe tree.
+ */
+export const encode = codec.encode;
+
+/**
+ * Decode a tree produced by `encode`.
+ */
+export const decode = codec.decode;
+
+/**
+ * Register a serializer for a custom class.
+ *
+ * @example
+ * ```typescript
+ * import { registerSerializer } from '@use-sandbox/core/codec';
+ *
+ * registerSerializer<Money, [number, string]>({
+ *   name: 'Money',
+ *   test: (v) => v instanceof Money,
+ *   serialize: (m) => [m.amount, m.currency],
+ *   deserialize: ([amount, currency]) => new Money(amount, currency),
+ * });
+ * ```
+ */
+export function registerSerializer<T, D = unknown>(
+  serializer: CustomSerializer<T, D>
+): void {
+  codec.registerSerializer(serializer as CustomSerializer);
+}
+
+/**
+ * Encode a value to a JSON string.
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(encode(value));
+}
+
+/**
+ * Decode a JSON string produced by `serialize`.
+ */
+export function deserialize(text: string): unknown {
+  return decode(JSON.parse(text));
+}
@@ -1,12 +1,24 @@
 import { AsyncLocalStorage } from 'async_hooks';
-import type { Sandbox } from '@vercel/sandbox';
+import type { SandboxInstance } from './provider.js';
 
 /**
  * Context stored in AsyncLocalStorage during sandbox execution.
  */
 export interface SandboxContextValue {
-  sandbox: Sandbox;
+  sandbox: SandboxInstance;
   sudo: boolean;
+  /** Route calls through the long-lived worker (SandboxConfig.worker) */
+  worker: boolean;
+  /** Receives the output of each sandbox function call as it's produced */
+  onOutput?: (stream: "stdout" | "stderr", data: string) => void;
+  /** Receives the runner's exit code after each sandbox function call */
+  onExit?: (exitCode: number) => void;
+  /** Cancels the run (RunOptions.signal / timeoutMs) */
+  signal?: AbortSignal;
+  /** Called before each sandbox function call; throwing cancels the call */
+  beforeCall?: (fnId: string) => Promise<void>;
+  /** Called after each sandbox function call, with its error if it failed */
+  afterCall?: (fnId: string, durationMs: number, error?: unknown) => Promise<void>;
 }
 
 /**
@@ -38,7 +50,7 @@ export function getSandboxContext(): SandboxContextValue {
  * 
  * @throws Error if called outside of a sandbox context
  */
-export function getSandbox(): Sandbox {
+export function getSandbox(): SandboxInstance {
   return getSandboxContext().sandbox;
 }
 
@@ -0,0 +1,260 @@
+/**
+ * Errors thrown by the host runtime.
+ *
+ * Everything a run rejects with is a SandboxError:
+ *
+ *   SandboxError
+ *   ├── SandboxRemoteError          the sandbox function threw
+ *   ├── SandboxInfrastructureError  creating or talking to the sandbox failed
+ *   │   └── SandboxExpiredError     the sandbox stopped or timed out
+ *   ├── SandboxProtocolError        the runner's answer couldn't be read
+ *   ├── SandboxTimeoutError         the run exceeded its `timeoutMs`
+ *   └── AbortError                  the run was cancelled through its `signal`
+ *
+ * The exception is an error thrown in the sandbox whose name was registered
+ * with registerRemoteError(): it's rethrown as an instance of that class.
+ */
+
+/**
+ * Base class of every error thrown by the runtime.
+ */
+export class SandboxError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "SandboxError";
+  }
+}
+
+/**
+ * Thrown when the sandbox itself fails: the provider couldn't create it, a
+ * command or file operation failed, or the runner died without answering.
+ */
+export class SandboxInfrastructureError extends SandboxError {
+  /** Exit code of the runner, when it ran */
+  readonly exitCode?: number;
+  /** Output of the runner, when it ran */
+  readonly stdout?: string;
+  readonly stderr?: string;
+
+  constructor(
+    message: string,
+    options?: {
+      cause?: unknown;
+      exitCode?: number;
+      stdout?: string;
+      stderr?: string;
+    }
+  ) {
+    super(message, options);
+    this.name = "SandboxInfrastructureError";
+    this.exitCode = options?.exitCode;
+    this.stdout = options?.stdout;
+    this.stderr = options?.stderr;
+  }
+}
+
+/**
+ * Thrown when a sandbox operation fails because the sandbox has expired or
+ * been stopped. Pooled sandboxes are recreated on the next run.
+ */
+export class SandboxExpiredError extends SandboxInfrastructureError {
+  readonly sandboxId: string;
+
+  constructor(sandboxId: string, options?: { cause?: unknown }) {
+    super(
+      `Sandbox ${sandboxId} is no longer running (it may have timed out). ` +
+        `Its filesystem state was lost.`,
+      options
+    );
+    this.name = "SandboxExpiredError";
+    this.sandboxId = sandboxId;
+  }
+}
+
+/**
+ * Thrown when the runner's result can't be read: a malformed or truncated
+ * frame, a runner speaking another protocol version, or a value that can't
+ * be decoded. A stale runner is reinstalled on the next call.
+ */
+export class SandboxProtocolError extends SandboxError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "SandboxProtocolError";
+  }
+}
+
+/**
+ * Thrown when a run takes longer than its `timeoutMs`.
+ */
+export class SandboxTimeoutError extends SandboxError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Sandbox run timed out after ${timeoutMs}ms`);
+    this.name = "SandboxTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when a run is cancelled through its `signal`. The signal's reason,
+ * if any, is the cause.
+ */
+export class AbortError extends SandboxError {
+  constructor(options?: { cause?: unknown }) {
+    super("Sandbox run was aborted", options);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * An error thrown by the sandbox function. `message` is the remote message
+ * and `stack` the remote stack; custom fields (`errno`, `path`, ...) are
+ * copied onto the instance, so checks like `err.code === "ENOENT"` work as
+ * they would in the sandbox.
+ */
+export class SandboxRemoteError extends SandboxError {
+  /** `name` of the error in the sandbox, e.g. "TypeError" */
+  readonly remoteName: string;
+  /** `code` of the error in the sandbox, if it had one */
+  readonly code?: string | number;
+  /** Stack trace from the sandbox */
+  readonly remoteStack?: string;
+
+  constructor(
+    message: string,
+    remote: {
+      name: string;
+      stack?: string;
+      cause?: unknown;
+      fields?: Record<string, unknown>;
+    }
+  ) {
+    super(message, "cause" in remote ? { cause: remote.cause } : undefined);
+    Object.assign(this, remote.fields);
+    this.name = "SandboxRemoteError";
+    this.remoteName = remote.name;
+    this.remoteStack = remote.stack;
+    if (remote.stack !== undefined) {
+      this.stack = remote.stack;
+    }
+  }
+}
+
+// ============================================================================
+// Remote error registry
+// ============================================================================
+
+type ErrorClass = abstract new (...args: never[]) => Error;
+
+// Shared through globalThis so registrations survive module reloads in dev
+const REMOTE_ERRORS_KEY = Symbol.for("@use-sandbox/remote-errors");
+
+function getRemoteErrorRegistry(): Map<string, ErrorClass> {
+  const g = globalThis as Record<symbol, Map<string, ErrorClass>>;
+  if (!g[REMOTE_ERRORS_KEY]) {
+    g[REMOTE_ERRORS_KEY] = new Map();
+  }
+  return g[REMOTE_ERRORS_KEY];
+}
+
+/**
+ * Rethrow errors with this name from the sandbox as instances of `ErrorClass`
+ * instead of SandboxRemoteError. The constructor isn't called: the instance
+ * gets the remote message, stack, cause and custom fields.
+ *
+ * @param name The remote error's `name`; defaults to the class name
+ *
+ * @example
+ * ```typescript
+ * import { registerRemoteError } from '@use-sandbox/core';
+ *
+ * class QuotaExceededError extends Error {
+ *   name = 'QuotaExceededError';
+ * }
+ * registerRemoteError(QuotaExceededError);
+ *
+ * try {
+ *   await sandbox.run(sessionId, upload, [file]);
+ * } catch (err) {
+ *   if (err instanceof QuotaExceededError) { ... }
+ * }
+ * ```
+ */
+export function registerRemoteError(
+  ErrorClass: ErrorClass,
+  name: string = ErrorClass.name
+): void {
+  getRemoteErrorRegistry().set(name, ErrorClass);
+}
+
+/**
+ * Turn a value thrown in the sandbox (after decoding) into the error the
+ * host rethrows. Causes are converted too.
+ */
+export function toRemoteError(thrown: unknown): Error {
+  return convert(thrown, new Map());
+}
+
+function convert(thrown: unknown, seen: Map<Error, Error>): Error {
+  if (!(thrown instanceof Error)) {
+    // `throw "text"` or a plain object; remoteName is then its type
+    return new SandboxRemoteError(describe(thrown), {
+      name: typeof thrown,
+      fields:
+        thrown !== null && typeof thrown === "object"
+          ? { ...thrown }
+          : undefined,
+    });
+  }
+
+  if (seen.has(thrown)) return seen.get(thrown)!;
+
+  const { name, message, stack } = thrown;
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(thrown)) {
+    if (key !== "name" && key !== "message" && key !== "stack") {
+      fields[key] = value;
+    }
+  }
+
+  const Registered = getRemoteErrorRegistry().get(name);
+  let error: Error;
+  if (Registered) {
+    error = Object.create(Registered.prototype);
+    Object.defineProperties(error, {
+      message: { value: message, writable: true, configurable: true },
+      stack: { value: stack, writable: true, configurable: true },
+    });
+    Object.assign(error, fields);
+    if (error.name !== name) {
+      Object.defineProperty(error, "name", {
+        value: name,
+        writable: true,
+        configurable: true,
+      });
+    }
+  } else {
+    error = new SandboxRemoteError(message, { name, stack, fields });
+  }
+  seen.set(thrown, error);
+
+  if ("cause" in thrown) {
+    const { cause } = thrown;
+    Object.defineProperty(error, "cause", {
+      value: cause instanceof Error ? convert(cause, seen) : cause,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return error;
+}
+
+function describe(value: unknown): string {
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
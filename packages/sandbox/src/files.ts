@@ -0,0 +1,289 @@
+/**
+ * Host-side file transfer for pooled sandboxes (sandbox.files(key)).
+ *
+ * Single files go through the provider's writeFiles/readFile. Directories
+ * travel as one gzipped tar archive: packed on the host and extracted with
+ * the sandbox's `tar`, or the other way around. The archive is streamed
+ * through the provider's writeFileStream/readFileStream where it has them.
+ */
+
+import { randomUUID } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { lstat, mkdir, readdir, readlink } from "fs/promises";
+import { dirname, join, relative, resolve, sep } from "path";
+import { pipeline, Readable } from "stream";
+import { pipeline as pipelineAsync } from "stream/promises";
+import { createGunzip, createGzip } from "zlib";
+import { SandboxError, SandboxInfrastructureError } from "./errors.js";
+import type { SandboxInstance } from "./provider.js";
+import { packTar, unpackTar, type TarEntry } from "./tar.js";
+
+export interface FileEntry {
+  /** Path relative to the listed directory */
+  path: string;
+  type: "file" | "directory" | "symlink" | "other";
+  /** Size in bytes */
+  size: number;
+}
+
+export interface ListOptions {
+  /**
+   * Include the contents of subdirectories.
+   * @default false
+   */
+  recursive?: boolean;
+}
+
+/**
+ * Move files in and out of the sandbox for one key, without a sandbox
+ * function round trip.
+ */
+export interface SandboxFiles {
+  /** Write a file, creating parent directories as needed */
+  write(path: string, data: string | Uint8Array): Promise<void>;
+
+  /**
+   * Read a file.
+   * @throws SandboxError if the file doesn't exist
+   */
+  read(path: string): Promise<Buffer>;
+
+  /** Copy a local directory into the sandbox, creating `remoteDir` if needed */
+  uploadDir(localDir: string, remoteDir: string): Promise<void>;
+
+  /**
+   * Copy a sandbox directory to the local filesystem, creating `localDir` if
+   * needed. Symlinks are skipped.
+   */
+  downloadDir(remoteDir: string, localDir: string): Promise<void>;
+
+  /** List the entries of a sandbox directory */
+  list(remoteDir: string, options?: ListOptions): Promise<FileEntry[]>;
+}
+
+/**
+ * Runs an operation with the pooled sandbox checked out and ready.
+ */
+export type WithSandbox = <T>(
+  operation: (sandbox: SandboxInstance) => Promise<T>
+) => Promise<T>;
+
+export function createSandboxFiles(withSandbox: WithSandbox): SandboxFiles {
+  return {
+    write: (path, data) =>
+      withSandbox((sandbox) =>
+        sandbox.writeFiles([{ path, content: Buffer.from(data) }])
+      ),
+
+    read: (path) =>
+      withSandbox(async (sandbox) => {
+        const content = await sandbox.readFile(path);
+        if (!content) {
+          throw new SandboxError(`[use-sandbox] File not found in sandbox: ${path}`);
+        }
+        return content;
+      }),
+
+    uploadDir: (localDir, remoteDir) =>
+      withSandbox(async (sandbox) => {
+        const archivePath = getTransferPath();
+        await writeStream(sandbox, archivePath, gzip(packTar(readLocalDir(localDir))));
+        await runScript(sandbox, [
+          `mkdir -p "$1" && tar -xzf "$2" --no-same-owner -C "$1"; status=$?; rm -f "$2"; exit $status`,
+          sandbox.resolvePath(remoteDir),
+          sandbox.resolvePath(archivePath),
+        ]);
+      }),
+
+    downloadDir: (remoteDir, localDir) =>
+      withSandbox(async (sandbox) => {
+        const archivePath = getTransferPath();
+        try {
+          await runScript(sandbox, [
+            `tar -czf "$2" -C "$1" .`,
+            sandbox.resolvePath(remoteDir),
+            sandbox.resolvePath(archivePath),
+          ]);
+          const archive = await readStream(sandbox, archivePath);
+          if (!archive) {
+            throw new SandboxInfrastructureError(
+              `[use-sandbox] Archive of ${remoteDir} disappeared before it was read`
+            );
+          }
+          await writeLocalDir(localDir, unpackTar(gunzip(archive)));
+        } finally {
+          await runScript(sandbox, [
+            `rm -f "$1"`,
+            sandbox.resolvePath(archivePath),
+          ]).catch(() => {});
+        }
+      }),
+
+    list: (remoteDir, options = {}) =>
+      withSandbox(async (sandbox) => {
+        const stdout = await runChecked(sandbox, "node", [
+          "-e",
+          LIST_SCRIPT,
+          sandbox.resolvePath(remoteDir),
+          options.recursive ? "recursive" : "",
+        ]);
+        const entries: FileEntry[] = JSON.parse(stdout);
+        return entries.sort((a, b) => a.path.localeCompare(b.path));
+      }),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Same directory as the runner's result files, which it sweeps
+const TRANSFER_DIR = "/tmp/sandbox-results";
+
+function getTransferPath(): string {
+  return `${TRANSFER_DIR}/transfer-${randomUUID()}.tar.gz`;
+}
+
+/**
+ * Run a `sh -c` script (with positional arguments, so paths are never
+ * interpolated into it) and return its stdout.
+ */
+function runScript(
+  sandbox: SandboxInstance,
+  [script, ...args]: string[]
+): Promise<string> {
+  // "sh" becomes $0, so the arguments start at $1
+  return runChecked(sandbox, "sh", ["-c", script, "sh", ...args]);
+}
+
+async function runChecked(
+  sandbox: SandboxInstance,
+  cmd: string,
+  args: string[]
+): Promise<string> {
+  const { exitCode, stdout, stderr } = await sandbox.runCommand({ cmd, args });
+  if (exitCode !== 0) {
+    throw new SandboxInfrastructureError(
+      `[use-sandbox] File transfer failed (exit code ${exitCode}): ${stderr.trim()}`,
+      { exitCode, stdout, stderr }
+    );
+  }
+  return stdout;
+}
+
+/**
+ * Write a file from a stream, buffering it for providers that can't stream.
+ */
+async function writeStream(
+  sandbox: SandboxInstance,
+  path: string,
+  content: AsyncIterable<Uint8Array>
+): Promise<void> {
+  if (sandbox.writeFileStream) {
+    return sandbox.writeFileStream(path, content);
+  }
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of content) chunks.push(chunk);
+  await sandbox.writeFiles([{ path, content: Buffer.concat(chunks) }]);
+}
+
+/**
+ * Read a file as a stream, buffering it for providers that can't stream.
+ */
+async function readStream(
+  sandbox: SandboxInstance,
+  path: string
+): Promise<AsyncIterable<Uint8Array> | null> {
+  if (sandbox.readFileStream) {
+    return sandbox.readFileStream(path);
+  }
+  const content = await sandbox.readFile(path);
+  return content && Readable.from([content]);
+}
+
+// Errors on either side surface when the returned stream is read
+function gzip(source: AsyncIterable<Uint8Array>): AsyncIterable<Uint8Array> {
+  return pipeline(source, createGzip(), () => {});
+}
+
+function gunzip(source: AsyncIterable<Uint8Array>): AsyncIterable<Uint8Array> {
+  return pipeline(source, createGunzip(), () => {});
+}
+
+// Lists a directory as FileEntry JSON: `node -e LIST_SCRIPT <dir> [recursive]`.
+// Node is in every sandbox (it runs the runner), unlike GNU find's -printf.
+const LIST_SCRIPT = `
+const fs = require("fs");
+const [root, recursive] = process.argv.slice(1);
+const entries = [];
+function walk(dir) {
+  for (const dirent of fs.readdirSync(root + "/" + dir, { withFileTypes: true })) {
+    const path = dir ? dir + "/" + dirent.name : dirent.name;
+    const stats = fs.lstatSync(root + "/" + path);
+    const type = stats.isFile() ? "file"
+      : stats.isDirectory() ? "directory"
+      : stats.isSymbolicLink() ? "symlink"
+      : "other";
+    entries.push({ path, type, size: stats.size });
+    if (recursive && type === "directory") walk(path);
+  }
+}
+try {
+  walk("");
+} catch (err) {
+  process.stderr.write(err.message);
+  process.exit(1);
+}
+process.stdout.write(JSON.stringify(entries));
+`;
+
+async function* readLocalDir(root: string): AsyncGenerator<TarEntry> {
+  async function* walk(dir: string): AsyncGenerator<TarEntry> {
+    for (const name of (await readdir(dir)).sort()) {
+      const fullPath = join(dir, name);
+      const path = relative(root, fullPath).split(sep).join("/");
+      const stats = await lstat(fullPath);
+
+      if (stats.isDirectory()) {
+        yield { path, type: "directory", mode: stats.mode };
+        yield* walk(fullPath);
+      } else if (stats.isSymbolicLink()) {
+        const linkname = await readlink(fullPath);
+        yield { path, type: "symlink", mode: stats.mode, linkname };
+      } else if (stats.isFile()) {
+        const content = createReadStream(fullPath);
+        yield { path, type: "file", mode: stats.mode, size: stats.size, content };
+      }
+    }
+  }
+
+  yield* walk(root);
+}
+
+async function writeLocalDir(
+  root: string,
+  entries: AsyncIterable<TarEntry>
+): Promise<void> {
+  const base = resolve(root);
+  await mkdir(base, { recursive: true });
+
+  for await (const entry of entries) {
+    // Never write outside the target directory
+    const target = resolve(base, entry.path);
+    if (target !== base && !target.startsWith(base + sep)) {
+      throw new SandboxError(
+        `[use-sandbox] Refusing to write ${entry.path} outside of ${root}`
+      );
+    }
+
+    if (entry.type === "directory") {
+      await mkdir(target, { recursive: true });
+    } else if (entry.type === "file") {
+      await mkdir(dirname(target), { recursive: true });
+      await pipelineAsync(
+        entry.content ?? [],
+        createWriteStream(target, { mode: entry.mode & 0o777 })
+      );
+    }
+  }
+}
@@ -6,7 +6,7 @@
  * @example
  * ```typescript
  * // Define a sandbox configuration
- * import { defineSandbox } from '@use-sandbox/core';
+ * import { defineSandbox, localProvider } from '@use-sandbox/core';
  * 
  * export const sandbox = defineSandbox({ vcpus: 4 });
  * 
@@ -22,6 +22,9 @@
  * 
  * // Or with options
  * const content = await sandbox.run({ key: sessionId, sudo: false }, readFile, ['/tmp/test.txt']);
+ *
+ * // Run offline / in CI with child processes instead of Vercel Sandbox
+ * const local = defineSandbox({ provider: localProvider() });
  * ```
  */
 
@@ -34,11 +37,26 @@ export {
   
   // Internal (used by transformer)
   __runSandboxFn,
+  __runSandboxGenerator,
+
+  // Internal (used by the bundler)
+  packageName,
   
   // Types
   type SandboxConfig,
+  type EvictionEvent,
+  type RecycleEvent,
+  type CreateEvent,
+  type RunEvent,
+  type AfterRunEvent,
+  type StopEvent,
   type RunOptions,
+  type ShellOptions,
+  type SandboxShell,
+  type RunResult,
+  type LogEntry,
   type RunSandboxFnOptions,
+  type RunSandboxGeneratorOptions,
   
   // Legacy (deprecated)
   runInSandbox,
@@ -46,5 +64,52 @@ export {
   type SandboxOptions,
 } from './runtime.js';
 
+// Host-side file transfer (sandbox.files(key))
+export { type SandboxFiles, type FileEntry, type ListOptions } from './files.js';
+
+// Errors thrown by runs
+export {
+  SandboxError,
+  SandboxInfrastructureError,
+  SandboxExpiredError,
+  SandboxProtocolError,
+  SandboxRemoteError,
+  SandboxTimeoutError,
+  AbortError,
+  registerRemoteError,
+} from './errors.js';
+
+// Execution providers
+export {
+  getDefaultProvider,
+  setDefaultProvider,
+  type SandboxProvider,
+  type SandboxInstance,
+  type SandboxCreateParams,
+  type SandboxFile,
+  type SandboxCommandParams,
+  type SandboxCommandResult,
+} from './provider.js';
+export { vercelProvider } from './providers/vercel.js';
+export { localProvider, type LocalProviderOptions } from './providers/local.js';
+
+// State storage (bundle hashes, key -> sandbox id)
+export { setStorage, type SandboxStateStorage } from './storage.js';
+
+// Value serialization across the sandbox boundary
+export { registerSerializer, type CustomSerializer } from './codec.js';
+
 // Shell utilities for safe command execution inside sandbox
-export { $ } from './shell.js';
+export {
+  $,
+  ShellError,
+  type Shell,
+  type ShellPromise,
+  type ShellLines,
+  type ShellResult,
+  type ShellCommandOptions,
+  type RawShellFragment,
+} from './shell.js';
+
+// Context of the current call, for code running inside the sandbox
+export { getRunContext, type RunContext } from './run-context.js';
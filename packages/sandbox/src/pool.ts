@@ -0,0 +1,157 @@
+/**
+ * Global sandbox pool.
+ *
+ * Entries are keyed by the user-supplied session key and live on globalThis
+ * so they survive hot-reload in dev mode. Pool *policy* (size limits, idle
+ * timeouts) is applied by SandboxDefinition; this module only tracks state.
+ */
+
+import type { SandboxInstance } from "./provider.js";
+
+export interface PoolEntry {
+  sandbox: SandboxInstance;
+  /** Timestamp of the last checkout or release */
+  lastUsedAt: number;
+  /** Number of runs currently using this sandbox */
+  active: number;
+  /** Pending idle eviction, if any */
+  idleTimer: NodeJS.Timeout | null;
+  /** In-flight replacement of an expired sandbox, shared by concurrent runs */
+  recycling: Promise<void> | null;
+}
+
+// Using a symbol key to avoid conflicts with other code.
+const GLOBAL_POOL_KEY = Symbol.for("@use-sandbox/pool");
+
+export function getGlobalPool(): Map<string, PoolEntry> {
+  const g = globalThis as Record<symbol, Map<string, PoolEntry>>;
+  if (!g[GLOBAL_POOL_KEY]) {
+    g[GLOBAL_POOL_KEY] = new Map();
+  }
+  return g[GLOBAL_POOL_KEY];
+}
+
+export function createPoolEntry(sandbox: SandboxInstance): PoolEntry {
+  return {
+    sandbox,
+    lastUsedAt: Date.now(),
+    active: 0,
+    idleTimer: null,
+    recycling: null,
+  };
+}
+
+export function clearIdleTimer(entry: PoolEntry): void {
+  if (entry.idleTimer) {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = null;
+  }
+}
+
+/**
+ * Find the least-recently-used entry that no run is currently using.
+ */
+export function findLeastRecentlyUsed(
+  pool: Map<string, PoolEntry>
+): [string, PoolEntry] | null {
+  let oldest: [string, PoolEntry] | null = null;
+  for (const [key, entry] of pool) {
+    if (entry.active > 0) continue;
+    if (!oldest || entry.lastUsedAt < oldest[1].lastUsedAt) {
+      oldest = [key, entry];
+    }
+  }
+  return oldest;
+}
+
+// ============================================================================
+// Single-flight creation
+// ============================================================================
+
+const PENDING_KEY = Symbol.for("@use-sandbox/pool-pending");
+
+/**
+ * Entries being created, by key. Concurrent runs for a key that isn't pooled
+ * yet wait on the same promise instead of each creating a sandbox.
+ */
+export function getPendingEntries(): Map<string, Promise<PoolEntry>> {
+  const g = globalThis as Record<symbol, Map<string, Promise<PoolEntry>>>;
+  if (!g[PENDING_KEY]) {
+    g[PENDING_KEY] = new Map();
+  }
+  return g[PENDING_KEY];
+}
+
+// ============================================================================
+// Per-key concurrency limits
+// ============================================================================
+
+interface Waiter {
+  limit: number;
+  resume: () => void;
+}
+
+interface KeyLimiter {
+  active: number;
+  queue: Waiter[];
+}
+
+const LIMITERS_KEY = Symbol.for("@use-sandbox/pool-limiters");
+
+function getLimiters(): Map<string, KeyLimiter> {
+  const g = globalThis as Record<symbol, Map<string, KeyLimiter>>;
+  if (!g[LIMITERS_KEY]) {
+    g[LIMITERS_KEY] = new Map();
+  }
+  return g[LIMITERS_KEY];
+}
+
+/**
+ * Wait until fewer than `limit` runs are executing for this key, then take
+ * a slot. Waiters are served in FIFO order. Resolves to a release function.
+ */
+export async function acquireRunSlot(
+  key: string,
+  limit: number
+): Promise<() => void> {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(
+      `[use-sandbox] concurrency must be a positive integer, got ${limit}`
+    );
+  }
+
+  const limiters = getLimiters();
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = { active: 0, queue: [] };
+    limiters.set(key, limiter);
+  }
+
+  // Queue behind earlier waiters even if a slot is free, to keep FIFO order
+  if (limiter.active >= limit || limiter.queue.length > 0) {
+    // drain() takes the slot on our behalf before resuming us
+    await new Promise<void>((resume) => limiter!.queue.push({ limit, resume }));
+  } else {
+    limiter.active++;
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    limiter!.active--;
+    drain(key, limiter!);
+  };
+}
+
+function drain(key: string, limiter: KeyLimiter): void {
+  while (limiter.queue.length > 0 && limiter.active < limiter.queue[0].limit) {
+    const next = limiter.queue.shift()!;
+    limiter.active++;
+    next.resume();
+  }
+
+  if (limiter.active === 0 && limiter.queue.length === 0) {
+    getLimiters().delete(key);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Execution providers.
+ *
+ * A provider knows how to create a sandbox and talk to it. The runtime only
+ * ever goes through this interface, so "use sandbox" code can run on Vercel
+ * Sandbox in production and in a local child process offline or in CI.
+ */
+
+import type { Sandbox } from "@vercel/sandbox";
+import { vercelProvider } from "./providers/vercel.js";
+import { localProvider } from "./providers/local.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type CreateSandboxParams = NonNullable<Parameters<typeof Sandbox.create>[0]>;
+
+/**
+ * Parameters used to create a sandbox.
+ */
+export type SandboxCreateParams = Pick<
+  CreateSandboxParams,
+  "resources" | "timeout" | "source" | "runtime"
+>;
+
+/**
+ * A file to write into the sandbox filesystem.
+ */
+export interface SandboxFile {
+  path: string;
+  content: Buffer;
+}
+
+/**
+ * Parameters for running a command inside a sandbox.
+ */
+export interface SandboxCommandParams {
+  cmd: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  /**
+   * Run with root privileges (ignored by providers without a privilege model).
+   */
+  sudo?: boolean;
+  /**
+   * Called with output as the command produces it. The full output is also
+   * returned in the result.
+   */
+  onStdout?: (data: string) => void;
+  onStderr?: (data: string) => void;
+  /**
+   * Abort the command: it is sent SIGTERM, then SIGKILL if it is still
+   * running after COMMAND_KILL_GRACE_MS. The promise rejects right away
+   * with the signal's reason.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * How long an aborted command gets to exit after SIGTERM before SIGKILL.
+ */
+export const COMMAND_KILL_GRACE_MS = 5_000;
+
+/**
+ * The outcome of a finished command.
+ */
+export interface SandboxCommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * A running sandbox, as seen by the runtime.
+ */
+export interface SandboxInstance {
+  /**
+   * Provider-specific unique identifier.
+   */
+  readonly id: string;
+
+  /**
+   * Map a path in the sandbox filesystem to the path a command running in
+   * the sandbox should use to reach it.
+   */
+  resolvePath(path: string): string;
+
+  writeFiles(files: SandboxFile[]): Promise<void>;
+
+  /**
+   * Read a file from the sandbox filesystem. Resolves to null if it doesn't exist.
+   */
+  readFile(path: string): Promise<Buffer | null>;
+
+  /**
+   * Write a file as its content is produced, without holding all of it in
+   * memory. Optional: without it, `sandbox.files()` buffers directory
+   * archives and uses writeFiles.
+   */
+  writeFileStream?(
+    path: string,
+    content: AsyncIterable<Uint8Array>
+  ): Promise<void>;
+
+  /**
+   * Read a file as a stream. Resolves to null if it doesn't exist. Optional,
+   * like writeFileStream.
+   */
+  readFileStream?(path: string): Promise<AsyncIterable<Uint8Array> | null>;
+
+  runCommand(params: SandboxCommandParams): Promise<SandboxCommandResult>;
+
+  /**
+   * Whether the sandbox is still running (it may have timed out or been
+   * stopped elsewhere). Should resolve to false rather than throw. Called
+   * before every run, so it may reuse a recent answer, as long as it checks
+   * again after a failed operation.
+   */
+  isAlive(): Promise<boolean>;
+
+  stop(): Promise<void>;
+}
+
+/**
+ * Creates sandboxes. Select one with `defineSandbox({ provider })`.
+ */
+export interface SandboxProvider {
+  /**
+   * Short name used in logs and errors.
+   */
+  readonly name: string;
+
+  create(params: SandboxCreateParams): Promise<SandboxInstance>;
+
+  /**
+   * Reattach to an existing sandbox by id.
+   * Resolves to null if the sandbox no longer exists or has stopped.
+   */
+  get?(id: string): Promise<SandboxInstance | null>;
+}
+
+// ============================================================================
+// Default provider
+// ============================================================================
+
+// Using a symbol key so the default survives hot-reload in dev mode.
+const DEFAULT_PROVIDER_KEY = Symbol.for("@use-sandbox/default-provider");
+
+/**
+ * Get the provider used when none is passed explicitly.
+ *
+ * Set `USE_SANDBOX_PROVIDER=local` to use the local provider without any
+ * code changes (useful in CI). Defaults to Vercel Sandbox.
+ */
+export function getDefaultProvider(): SandboxProvider {
+  const g = globalThis as Record<symbol, SandboxProvider | undefined>;
+  if (!g[DEFAULT_PROVIDER_KEY]) {
+    g[DEFAULT_PROVIDER_KEY] =
+      process.env.USE_SANDBOX_PROVIDER === "local"
+        ? localProvider()
+        : vercelProvider();
+  }
+  return g[DEFAULT_PROVIDER_KEY];
+}
+
+/**
+ * Replace the provider used when none is passed explicitly, including for
+ * ephemeral sandboxes created by calling a "use sandbox" function directly.
+ */
+export function setDefaultProvider(provider: SandboxProvider): void {
+  const g = globalThis as Record<symbol, SandboxProvider | undefined>;
+  g[DEFAULT_PROVIDER_KEY] = provider;
+}
@@ -0,0 +1,214 @@
+/**
+ * Local child-process provider.
+ *
+ * Each sandbox is a temp directory on the host and every command is a child
+ * process running inside it. Paths written to the sandbox are re-rooted under
+ * that directory, so `/tmp/sandbox-runner.mjs` lands in `<root>/tmp/...`.
+ *
+ * This provides NO isolation: commands run as the current user with the
+ * host's environment. Use it for offline development and CI, not for
+ * untrusted code.
+ */
+
+import { spawn } from "child_process";
+import { createWriteStream, existsSync, mkdtempSync, mkdirSync } from "fs";
+import { open, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, dirname, join } from "path";
+import { pipeline } from "stream/promises";
+import {
+  COMMAND_KILL_GRACE_MS,
+  type SandboxCommandParams,
+  type SandboxCommandResult,
+  type SandboxCreateParams,
+  type SandboxFile,
+  type SandboxInstance,
+  type SandboxProvider,
+} from "../provider.js";
+
+export interface LocalProviderOptions {
+  /**
+   * Directory in which sandbox directories are created.
+   * @default os.tmpdir()
+   */
+  baseDir?: string;
+}
+
+class LocalSandboxInstance implements SandboxInstance {
+  readonly id: string;
+  readonly root: string;
+  private stopped = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(root: string, timeout?: number) {
+    this.root = root;
+    this.id = basename(root);
+
+    // Mirror the remote behaviour of auto-terminating after the timeout
+    if (timeout) {
+      this.timer = setTimeout(() => void this.stop(), timeout);
+      this.timer.unref();
+    }
+  }
+
+  resolvePath(path: string): string {
+    return join(this.root, path);
+  }
+
+  async writeFiles(files: SandboxFile[]): Promise<void> {
+    this.assertRunning();
+    for (const file of files) {
+      const target = this.resolvePath(file.path);
+      mkdirSync(dirname(target), { recursive: true });
+      await writeFile(target, file.content);
+    }
+  }
+
+  async readFile(path: string): Promise<Buffer | null> {
+    this.assertRunning();
+    try {
+      return await readFile(this.resolvePath(path));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async writeFileStream(
+    path: string,
+    content: AsyncIterable<Uint8Array>
+  ): Promise<void> {
+    this.assertRunning();
+    const target = this.resolvePath(path);
+    mkdirSync(dirname(target), { recursive: true });
+    await pipeline(content, createWriteStream(target));
+  }
+
+  async readFileStream(
+    path: string
+  ): Promise<AsyncIterable<Uint8Array> | null> {
+    this.assertRunning();
+    try {
+      const handle = await open(this.resolvePath(path));
+      return handle.createReadStream();
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  runCommand(params: SandboxCommandParams): Promise<SandboxCommandResult> {
+    this.assertRunning();
+    params.signal?.throwIfAborted();
+
+    // Use the host's node binary so the local sandbox matches the host version
+    const cmd = params.cmd === "node" ? process.execPath : params.cmd;
+    const cwd = params.cwd ? this.resolvePath(params.cwd) : this.root;
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(cmd, params.args ?? [], {
+        cwd,
+        env: { ...process.env, ...params.env },
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+
+      // Decode as we go so multi-byte characters split across chunks survive
+      let stdout = "";
+      let stderr = "";
+      child.stdout.setEncoding("utf-8");
+      child.stderr.setEncoding("utf-8");
+      child.stdout.on("data", (chunk: string) => {
+        stdout += chunk;
+        params.onStdout?.(chunk);
+      });
+      child.stderr.on("data", (chunk: string) => {
+        stderr += chunk;
+        params.onStderr?.(chunk);
+      });
+
+      const { signal } = params;
+      const onAbort = () => {
+        child.kill("SIGTERM");
+        const timer = setTimeout(() => {
+          if (child.exitCode === null && child.signalCode === null) {
+            child.kill("SIGKILL");
+          }
+        }, COMMAND_KILL_GRACE_MS);
+        timer.unref();
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      child.on("error", reject);
+      child.on("close", (code) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve({ exitCode: code ?? 1, stdout, stderr });
+      });
+    });
+  }
+
+  async isAlive(): Promise<boolean> {
+    // Another process may have stopped it (or its timeout fired there)
+    return !this.stopped && existsSync(this.root);
+  }
+
+  async stop(): Promise<void> {
+    if (this.stopped) return;
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await rm(this.root, { recursive: true, force: true });
+  }
+
+  private assertRunning(): void {
+    if (this.stopped) {
+      throw new Error(`Local sandbox ${this.id} has been stopped`);
+    }
+  }
+}
+
+class LocalProvider implements SandboxProvider {
+  readonly name = "local";
+  private baseDir: string;
+
+  constructor(options: LocalProviderOptions) {
+    this.baseDir = options.baseDir ?? tmpdir();
+  }
+
+  async create(params: SandboxCreateParams): Promise<SandboxInstance> {
+    if (params.source) {
+      throw new Error(
+        "[use-sandbox] The local provider does not support `source`. " +
+          "Clone or extract the source inside a sandbox function instead."
+      );
+    }
+
+    mkdirSync(this.baseDir, { recursive: true });
+    const root = mkdtempSync(join(this.baseDir, "use-sandbox-"));
+    return new LocalSandboxInstance(root, params.timeout);
+  }
+
+  async get(id: string): Promise<SandboxInstance | null> {
+    // The id is the directory name, so any process can reattach to it
+    const root = join(this.baseDir, basename(id));
+    return existsSync(root) ? new LocalSandboxInstance(root) : null;
+  }
+}
+
+/**
+ * Run sandboxes as child processes in temp directories on this machine.
+ *
+ * @example
+ * ```typescript
+ * import { defineSandbox, localProvider } from '@use-sandbox/core';
+ *
+ * export const sandbox = defineSandbox({ provider: localProvider() });
+ * ```
+ */
+export function localProvider(
+  options: LocalProviderOptions = {}
+): SandboxProvider {
+  return new LocalProvider(options);
+}
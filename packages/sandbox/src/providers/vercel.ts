@@ -0,0 +1,245 @@
+/**
+ * Vercel Sandbox provider.
+ *
+ * Runs sandboxes as Firecracker microVMs through `@vercel/sandbox`.
+ * Credentials are resolved by the SDK (OIDC token or access token).
+ */
+
+import { Sandbox } from "@vercel/sandbox";
+import { SandboxInfrastructureError } from "../errors.js";
+import {
+  COMMAND_KILL_GRACE_MS,
+  type SandboxCommandParams,
+  type SandboxCommandResult,
+  type SandboxCreateParams,
+  type SandboxFile,
+  type SandboxInstance,
+  type SandboxProvider,
+} from "../provider.js";
+
+// Streamed writes go up in parts of this size; only one is held in memory
+const WRITE_PART_SIZE = 16 * 1024 * 1024;
+
+// A running status is trusted this long before it's fetched again, so
+// back-to-back runs don't each pay for a round trip
+const LIVENESS_TTL_MS = 5_000;
+
+function isRunning(sandbox: Sandbox): boolean {
+  return sandbox.status === "running" || sandbox.status === "pending";
+}
+
+/**
+ * A Vercel Sandbox wrapped as a provider-agnostic instance.
+ */
+class VercelSandboxInstance implements SandboxInstance {
+  /**
+   * The underlying SDK object, for features the runtime doesn't wrap.
+   */
+  readonly sandbox: Sandbox;
+
+  // When the sandbox was last seen running; 0 once an SDK call has failed
+  private aliveAt = 0;
+
+  constructor(sandbox: Sandbox) {
+    this.sandbox = sandbox;
+  }
+
+  get id(): string {
+    return this.sandbox.sandboxId;
+  }
+
+  resolvePath(path: string): string {
+    // Commands see the same filesystem we write to
+    return path;
+  }
+
+  async writeFiles(files: SandboxFile[]): Promise<void> {
+    await this.call(() => this.sandbox.writeFiles(files));
+  }
+
+  async readFile(path: string): Promise<Buffer | null> {
+    const stream = await this.readFileStream(path);
+    if (!stream) return null;
+
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return Buffer.concat(chunks);
+  }
+
+  async writeFileStream(
+    path: string,
+    content: AsyncIterable<Uint8Array>
+  ): Promise<void> {
+    // The SDK only writes whole buffers, so the file is written in parts,
+    // each appended to it in the sandbox
+    const partPath = `${path}.part`;
+    let append = false;
+    const flush = async (part: Buffer) => {
+      await this.writeFiles([{ path: partPath, content: part }]);
+      const { exitCode, stdout, stderr } = await this.runCommand({
+        cmd: "sh",
+        args: [
+          "-c",
+          `cat "$1" ${append ? ">>" : ">"} "$2" && rm -f "$1"`,
+          "sh",
+          partPath,
+          path,
+        ],
+      });
+      if (exitCode !== 0) {
+        throw new SandboxInfrastructureError(
+          `[use-sandbox] Failed to write ${path} (exit code ${exitCode}): ${stderr.trim()}`,
+          { exitCode, stdout, stderr }
+        );
+      }
+      append = true;
+    };
+
+    let chunks: Uint8Array[] = [];
+    let size = 0;
+    for await (const chunk of content) {
+      chunks.push(chunk);
+      size += chunk.length;
+      if (size >= WRITE_PART_SIZE) {
+        await flush(Buffer.concat(chunks));
+        chunks = [];
+        size = 0;
+      }
+    }
+    if (size > 0 || !append) await flush(Buffer.concat(chunks));
+  }
+
+  async readFileStream(
+    path: string
+  ): Promise<AsyncIterable<Uint8Array> | null> {
+    const stream = await this.call(() => this.sandbox.readFile({ path }));
+    if (!stream) return null;
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        yield typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+      }
+    })();
+  }
+
+  runCommand(params: SandboxCommandParams): Promise<SandboxCommandResult> {
+    return this.call(() => this.execute(params));
+  }
+
+  private async execute(
+    params: SandboxCommandParams
+  ): Promise<SandboxCommandResult> {
+    const { signal } = params;
+    signal?.throwIfAborted();
+
+    const command = await this.sandbox.runCommand({
+      cmd: params.cmd,
+      args: params.args,
+      cwd: params.cwd,
+      env: params.env,
+      sudo: params.sudo,
+      detached: true,
+    });
+
+    const collect = async (): Promise<SandboxCommandResult> => {
+      // Follow the log stream ourselves so output reaches the callbacks as
+      // it is produced, and is complete by the time we return
+      let stdout = "";
+      let stderr = "";
+      for await (const log of command.logs()) {
+        if (log.stream === "stdout") {
+          stdout += log.data;
+          params.onStdout?.(log.data);
+        } else {
+          stderr += log.data;
+          params.onStderr?.(log.data);
+        }
+      }
+
+      const result = await command.wait();
+      return { exitCode: result.exitCode, stdout, stderr };
+    };
+
+    if (!signal) return collect();
+
+    return new Promise((resolve, reject) => {
+      let finished = false;
+      const onAbort = () => {
+        void command.kill("SIGTERM").catch(() => {});
+        const timer = setTimeout(() => {
+          if (!finished) void command.kill("SIGKILL").catch(() => {});
+        }, COMMAND_KILL_GRACE_MS);
+        timer.unref();
+        reject(signal.reason);
+      };
+
+      // It may have been aborted while the command was starting
+      if (signal.aborted) onAbort();
+      else signal.addEventListener("abort", onAbort, { once: true });
+
+      collect()
+        .then(resolve, reject)
+        .finally(() => {
+          finished = true;
+          signal.removeEventListener("abort", onAbort);
+        });
+    });
+  }
+
+  async isAlive(): Promise<boolean> {
+    if (Date.now() - this.aliveAt < LIVENESS_TTL_MS) return true;
+    try {
+      // The status on our object is a snapshot, so fetch the current one
+      const current = await Sandbox.get({ sandboxId: this.id });
+      if (!isRunning(current)) return false;
+      this.aliveAt = Date.now();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Make an SDK call. A failure may mean the sandbox has stopped, so the
+   * next isAlive() checks again instead of trusting an earlier answer.
+   */
+  private async call<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (err) {
+      this.aliveAt = 0;
+      throw err;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.aliveAt = 0;
+    await this.sandbox.stop();
+  }
+}
+
+class VercelProvider implements SandboxProvider {
+  readonly name = "vercel";
+
+  async create(params: SandboxCreateParams): Promise<SandboxInstance> {
+    const sandbox = await Sandbox.create(params);
+    return new VercelSandboxInstance(sandbox);
+  }
+
+  async get(id: string): Promise<SandboxInstance | null> {
+    try {
+      const sandbox = await Sandbox.get({ sandboxId: id });
+      return isRunning(sandbox) ? new VercelSandboxInstance(sandbox) : null;
+    } catch {
+      // Unknown or expired sandbox
+      return null;
+    }
+  }
+}
+
+/**
+ * Run sandboxes on Vercel Sandbox. This is the default provider.
+ */
+export function vercelProvider(): SandboxProvider {
+  return new VercelProvider();
+}
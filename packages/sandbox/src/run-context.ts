@@ -0,0 +1,54 @@
+/**
+ * Per-call context for code running inside the sandbox.
+ *
+ * The runner (see runner.ts) publishes an AsyncLocalStorage on globalThis
+ * and runs every call inside it. This module only reads from it, so it can
+ * be bundled into the sandbox code without pulling in the host runtime.
+ */
+
+export interface RunContext {
+  /**
+   * Aborted when the host cancels the call (`signal`/`timeoutMs` in
+   * RunOptions). Stop work and clean up when it fires; the runner is killed
+   * if it doesn't exit within a few seconds.
+   */
+  signal: AbortSignal;
+}
+
+// Must match the key used by RUNNER_SCRIPT
+const RUN_CONTEXT_KEY = Symbol.for("@use-sandbox/run-context");
+
+interface RunContextStorage {
+  getStore(): RunContext | undefined;
+}
+
+/**
+ * Get the context of the current sandbox function call.
+ *
+ * @example
+ * ```typescript
+ * import { getRunContext } from '@use-sandbox/core';
+ *
+ * async function crawl(urls: string[]) {
+ *   "use sandbox";
+ *   const { signal } = getRunContext();
+ *   for (const url of urls) {
+ *     await fetch(url, { signal });
+ *   }
+ * }
+ * ```
+ *
+ * @throws Error if called outside of a sandbox function call
+ */
+export function getRunContext(): RunContext {
+  const storage = (globalThis as Record<symbol, RunContextStorage | undefined>)[
+    RUN_CONTEXT_KEY
+  ];
+  const ctx = storage?.getStore();
+  if (!ctx) {
+    throw new Error(
+      "[use-sandbox] getRunContext() can only be called inside a sandbox function"
+    );
+  }
+  return ctx;
+}
@@ -1,71 +1,642 @@
 /**
  * In-sandbox runner script.
  *
- * This script runs inside the Vercel Sandbox and is responsible for:
+ * This script runs inside the sandbox and is responsible for:
  * 1. Loading the bundle (pre-written to sandbox filesystem)
  * 2. Executing the requested function
  * 3. Returning the serialized result
  *
  * Usage:
- *   node runner.mjs <fnId> <argsJson>
+ *   node runner.mjs <fnId> <payloadPath>
  */
 
+import { createCodec } from "./codec.js";
+import { SandboxProtocolError } from "./errors.js";
+
+/**
+ * Version of the host <-> runner protocol. Bump on any incompatible change
+ * to the payload or result frame.
+ *
+ * v1: payload in argv, result on the last stdout line
+ * v2: payload file, framed result file
+ * v3: chunk frames on stdout for generator functions
+ * v4: errors encoded with the codec
+ */
+export const RUNNER_PROTOCOL_VERSION = 4;
+
+const RESULT_FRAME_MAGIC = "use-sandbox-result";
+
+const CHUNK_FRAME_MAGIC = "use-sandbox-chunk";
+
 /**
  * Path where the bundle is written in the sandbox filesystem.
+ * Must be in the same directory as RUNNER_SCRIPT_PATH.
  */
 export const SANDBOX_BUNDLE_PATH = "/tmp/sandbox-bundle.mjs";
 
+/**
+ * npm prefix for external dependencies. Its node_modules is on the module
+ * resolution path of SANDBOX_BUNDLE_PATH.
+ */
+export const SANDBOX_DEPENDENCIES_DIR = "/tmp";
+
+/**
+ * Directory holding result files. The runner sweeps stale ones on startup.
+ */
+const RESULT_DIR = "/tmp/sandbox-results";
+
+/**
+ * Code shared by the one-shot runner and the worker daemon: payload and
+ * result handling, and `execute()`, which runs a single call.
+ */
+const RUNNER_CORE = `
+import { AsyncLocalStorage } from "node:async_hooks";
+import { mkdir, readFile, readdir, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+const PROTOCOL_VERSION = ${RUNNER_PROTOCOL_VERSION};
+
+// Read by getRunContext() in the bundle (see run-context.ts)
+const runContext = new AsyncLocalStorage();
+globalThis[Symbol.for("@use-sandbox/run-context")] = runContext;
+
+// Same codec as the host runtime (embedded from codec.ts)
+const codec = (${createCodec.toString()})();
+
+async function readPayload(payloadPath) {
+  try {
+    return await readFile(payloadPath, "utf-8");
+  } finally {
+    // Arguments may be sensitive, don't leave them lying around
+    await unlink(payloadPath).catch(() => {});
+  }
+}
+
+async function writeResult(resultPath, message) {
+  const body = Buffer.from(JSON.stringify(message), "utf-8");
+  const header = "${RESULT_FRAME_MAGIC}/" + PROTOCOL_VERSION + " " + body.length + "\\n";
+
+  // Write then rename, so the host never sees a partial frame
+  await mkdir(dirname(resultPath), { recursive: true });
+  const tmpPath = resultPath + ".partial";
+  await writeFile(tmpPath, Buffer.concat([Buffer.from(header, "utf-8"), body]));
+  await rename(tmpPath, resultPath);
+}
+
+// Remove result files the host has long since read
+async function sweepResults(resultDir) {
+  const cutoff = Date.now() - 5 * 60_000;
+  const names = await readdir(resultDir).catch(() => []);
+  await Promise.all(names.map(async (name) => {
+    const path = join(resultDir, name);
+    const info = await stat(path).catch(() => null);
+    if (info && info.mtimeMs < cutoff) await unlink(path).catch(() => {});
+  }));
+}
+
+async function run(bundle, fnId, payload) {
+  const fn = bundle[fnId];
+  if (!fn) {
+    throw new Error("Function not found: " + fnId + ". Available: " + Object.keys(bundle).join(", "));
+  }
+
+  const { args = [], closureVars, chunkToken } = payload;
+
+  // If closureVars exist, prepend them as first argument
+  // The generated sandbox function expects: fn(__closure, ...originalArgs)
+  const allArgs = closureVars ? [closureVars, ...args] : args;
+
+  const result = fn(...allArgs);
+  if (chunkToken && typeof result?.[Symbol.asyncIterator] === "function") {
+    return streamChunks(result, chunkToken);
+  }
+  return await result;
+}
+
+// Send each value a generator yields to the host as a chunk frame on stdout,
+// and resolve to its return value
+async function streamChunks(generator, chunkToken) {
+  const prefix = "\\x1e${CHUNK_FRAME_MAGIC}:" + chunkToken + ":";
+  for (;;) {
+    const { value, done } = await generator.next();
+    if (done) return value;
+    const frame = prefix + JSON.stringify(codec.encode(value)) + "\\n";
+    await new Promise((resolve) => process.stdout.write(frame, resolve));
+  }
+}
+
+// Run one call and write its result frame. Returns the exit code.
+// The bundle must be imported first so its custom serializers are registered.
+// The signal aborts when the host cancels the call.
+async function execute(bundle, fnId, payloadPath, signal) {
+  const payload = codec.decode(JSON.parse(await readPayload(payloadPath)));
+  const { resultPath } = payload;
+
+  void sweepResults(dirname(resultPath));
+
+  if (payload.protocol !== PROTOCOL_VERSION) {
+    await writeResult(resultPath, {
+      ok: false,
+      error: encodeError(new Error(
+        "Runner protocol mismatch: host speaks v" + payload.protocol +
+          ", runner speaks v" + PROTOCOL_VERSION
+      )),
+    });
+    return 1;
+  }
+
+  try {
+    const result = await runContext.run({ signal }, () => run(bundle, fnId, payload));
+    await writeResult(resultPath, { ok: true, value: codec.encode(result) });
+    return 0;
+  } catch (err) {
+    await writeResult(resultPath, { ok: false, error: encodeError(err) });
+    return 1;
+  }
+}
+
+// Errors keep their class name, code, cause and custom fields. If one can't
+// be encoded (e.g. a field with a failing toJSON), send the basics instead.
+function encodeError(err) {
+  try {
+    return codec.encode(err);
+  } catch {
+    const fallback = new Error(err?.message ?? String(err));
+    fallback.name = err?.name ?? "Error";
+    fallback.stack = err?.stack;
+    return codec.encode(fallback);
+  }
+}
+`;
+
 /**
  * The runner script source code that gets written to the sandbox.
  * This is a self-contained ESM module.
  *
  * Protocol:
- *   node runner.mjs <fnId> <payloadJson>
+ *   node runner.mjs <fnId> <payloadPath>
+ *
+ * The payload is a JSON file written by the host just before the call (see
+ * getPayloadPath). The runner deletes it as soon as it has been read.
  *
- * Payload format:
- *   { args: unknown[], closureVars?: Record<string, unknown> }
+ * Payload format (encoded with the codec, see codec.ts):
+ *   {
+ *     protocol: number,       // must equal RUNNER_PROTOCOL_VERSION
+ *     resultPath: string,     // where to write the result frame
+ *     args: unknown[],
+ *     closureVars?: Record<string, unknown>,
+ *     chunkToken?: string     // set when calling a generator function
+ *   }
  *
  * If closureVars is present, it's passed as the first argument to the function.
+ *
+ * Values yielded by a generator function are written to stdout as chunk
+ * frames, one per line, as soon as they are produced:
+ *
+ *   \x1euse-sandbox-chunk:<chunkToken>:<json>\n
+ *
+ * The token is random per call, so output of the function itself can't be
+ * mistaken for a chunk. The result frame then holds the generator's return
+ * value.
+ *
+ * The result is written to `resultPath` rather than stdout, so anything the
+ * function (or its child processes) prints can't corrupt it. The file holds
+ * a single frame:
+ *
+ *   use-sandbox-result/<protocol> <byteLength>\n<json>
+ *
+ * where json is `{ ok: true, value }` or `{ ok: false, error }`, with the
+ * value or error encoded by the codec. The runner always answers with its
+ * own protocol version, so the host can detect a stale runner (and the
+ * runner a newer host).
  */
-export const RUNNER_SCRIPT = `
-async function run(fnId, payload) {
-  const bundle = await import("/tmp/sandbox-bundle.mjs");
+export const RUNNER_SCRIPT = `${RUNNER_CORE}
+async function main(fnId, payloadPath) {
+  // Resolve the bundle next to this script so providers can relocate both
+  const bundle = await import(new URL("./sandbox-bundle.mjs", import.meta.url).href);
 
-  const fn = bundle[fnId];
-  if (!fn) {
-    throw new Error("Function not found: " + fnId + ". Available: " + Object.keys(bundle).join(", "));
+  // The host cancels with SIGTERM; let the function see it and wind down
+  // (it sends SIGKILL if we're still running a few seconds later)
+  const controller = new AbortController();
+  process.on("SIGTERM", () => controller.abort());
+
+  process.exitCode = await execute(bundle, fnId, payloadPath, controller.signal);
+}
+
+const [,, fnId, payloadPath] = process.argv;
+
+if (!fnId || !payloadPath) {
+  console.error("Usage: node runner.mjs <fnId> <payloadPath>");
+  process.exit(1);
+}
+
+main(fnId, payloadPath).catch((err) => {
+  // Nowhere to write a result (bad payload); the host reports stderr
+  console.error(err?.stack ?? String(err));
+  process.exit(1);
+});
+`;
+
+/**
+ * Path where the runner script is written in the sandbox filesystem.
+ */
+export const RUNNER_SCRIPT_PATH = "/tmp/sandbox-runner.mjs";
+
+/**
+ * Path of the payload file for a single call.
+ * Must be unique per call, since calls on one sandbox can run concurrently.
+ */
+export function getPayloadPath(callId: string): string {
+  return `/tmp/sandbox-payload-${callId}.json`;
+}
+
+/**
+ * Path of the result file for a single call.
+ */
+export function getResultPath(callId: string): string {
+  return `${RESULT_DIR}/${callId}.result`;
+}
+
+/**
+ * A decoded result frame.
+ */
+export type RunnerResult =
+  | { ok: true; value: unknown }
+  | { ok: false; error: unknown };
+
+/**
+ * Parse and validate a result frame written by the runner.
+ *
+ * @throws SandboxProtocolError if the frame is malformed, truncated, or was written by a
+ * runner speaking a different protocol version
+ */
+export function parseResultFrame(frame: Buffer): RunnerResult {
+  const newline = frame.indexOf(0x0a);
+  const header = frame.subarray(0, newline === -1 ? 0 : newline).toString();
+  const match = new RegExp(`^${RESULT_FRAME_MAGIC}/(\\d+) (\\d+)$`).exec(header);
+
+  if (!match) {
+    throw new SandboxProtocolError("Malformed result frame from sandbox runner");
   }
 
-  const { args = [], closureVars } = payload;
+  const version = Number(match[1]);
+  if (version !== RUNNER_PROTOCOL_VERSION) {
+    throw new SandboxProtocolError(
+      `Sandbox runner speaks protocol v${version} but the host expects ` +
+        `v${RUNNER_PROTOCOL_VERSION}. The runner will be reinstalled on the next call.`
+    );
+  }
 
-  // If closureVars exist, prepend them as first argument
-  // The generated sandbox function expects: fn(__closure, ...originalArgs)
-  const allArgs = closureVars ? [closureVars, ...args] : args;
+  const body = frame.subarray(newline + 1);
+  if (body.length !== Number(match[2])) {
+    throw new SandboxProtocolError(
+      `Truncated result frame from sandbox runner ` +
+        `(expected ${match[2]} bytes, got ${body.length})`
+    );
+  }
+
+  return JSON.parse(body.toString("utf-8"));
+}
+
+// ============================================================================
+// Worker daemon (opt-in, see SandboxConfig.worker)
+// ============================================================================
+
+/**
+ * Path where the worker daemon script is written in the sandbox filesystem.
+ * Must be in the same directory as SANDBOX_BUNDLE_PATH.
+ */
+export const WORKER_SCRIPT_PATH = "/tmp/sandbox-worker.mjs";
+
+/**
+ * Path where the worker client script is written in the sandbox filesystem.
+ * Must be in the same directory as WORKER_SCRIPT_PATH.
+ */
+export const WORKER_CLIENT_SCRIPT_PATH = "/tmp/sandbox-worker-client.mjs";
+
+/**
+ * Long-lived daemon that keeps the bundle loaded and serves calls over a
+ * unix socket, so module-level state survives between calls.
+ *
+ * Protocol (newline-delimited JSON over the socket):
+ *   client -> worker: { protocol, fnId, payloadPath, bundleHash }
+ *                     { type: "abort" }  (cancel the call; also on disconnect)
+ *   worker -> client: { type: "stdout" | "stderr", data }  (base64)
+ *                     { type: "exit", code }
+ *                     { type: "stale" }  (protocol mismatch, worker exits)
+ *
+ * Payload and result files are the same as for the one-shot runner. The
+ * bundle is re-imported whenever a call carries a different bundle hash.
+ */
+export const WORKER_SCRIPT = `${RUNNER_CORE}
+import { connect, createServer } from "node:net";
+import { createInterface } from "node:readline";
+
+const socketPath = process.argv[2];
+const calls = new AsyncLocalStorage();
+
+// Send output written during a call to the client that made it
+for (const name of ["stdout", "stderr"]) {
+  const stream = process[name];
+  const write = stream.write.bind(stream);
+  stream.write = (chunk, encoding, callback) => {
+    const send = calls.getStore();
+    if (!send) return write(chunk, encoding, callback);
+    const data = Buffer.from(chunk, typeof encoding === "string" ? encoding : undefined);
+    send({ type: name, data: data.toString("base64") });
+    const done = typeof encoding === "function" ? encoding : callback;
+    if (done) process.nextTick(done);
+    return true;
+  };
+}
 
-  const result = await fn(...allArgs);
-  return result;
+let loaded = null;
+
+function loadBundle(hash) {
+  if (!loaded || loaded.hash !== hash) {
+    // A new URL gives a fresh module instance. ESM never unloads the old
+    // one, so each reload leaks it; acceptable for dev-time bundle updates.
+    const url = new URL("./sandbox-bundle.mjs?v=" + encodeURIComponent(hash), import.meta.url);
+    const current = { hash, bundle: import(url.href) };
+    current.bundle.catch(() => {
+      if (loaded === current) loaded = null;
+    });
+    loaded = current;
+  }
+  return loaded.bundle;
+}
+
+async function handle(socket, request, signal) {
+  const send = (message) => socket.write(JSON.stringify(message) + "\\n");
+
+  if (request.protocol !== PROTOCOL_VERSION) {
+    // Installed by a newer host; stop accepting calls so a new worker can start
+    send({ type: "stale" });
+    socket.end();
+    shutdown();
+    return;
+  }
+
+  let code;
+  try {
+    const bundle = await loadBundle(request.bundleHash);
+    code = await calls.run(send, () =>
+      execute(bundle, request.fnId, request.payloadPath, signal)
+    );
+  } catch (err) {
+    // No result was written (bundle or payload failed to load)
+    send({ type: "stderr", data: Buffer.from((err?.stack ?? String(err)) + "\\n").toString("base64") });
+    code = 1;
+  }
+  send({ type: "exit", code });
+  socket.end();
 }
 
-const [,, fnId, payloadJson] = process.argv;
+const server = createServer((socket) => {
+  const controller = new AbortController();
+  let started = false;
+  socket.on("error", () => {});
+
+  // Cancel the call when the client asks to, or goes away before it's done
+  socket.on("close", () => controller.abort());
 
-if (!fnId) {
-  console.error(JSON.stringify({ __error: "Usage: node runner.mjs <fnId> <payloadJson>" }));
+  // The first line is the call, later ones are control messages
+  createInterface({ input: socket }).on("line", (line) => {
+    const message = JSON.parse(line);
+    if (!started) {
+      started = true;
+      void handle(socket, message, controller.signal);
+    } else if (message.type === "abort") {
+      controller.abort();
+    }
+  });
+});
+
+function isListening(path) {
+  return new Promise((resolve) => {
+    const probe = connect(path, () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.on("error", () => resolve(false));
+  });
+}
+
+function listen() {
+  server.once("error", async (err) => {
+    if (err.code !== "EADDRINUSE") throw err;
+    // Either another worker won the race to start, or a dead one left its
+    // socket file behind
+    if (await isListening(socketPath)) process.exit(0);
+    await unlink(socketPath).catch(() => {});
+    listen();
+  });
+  server.listen(socketPath);
+}
+
+// Stop accepting calls and exit once the calls in flight have finished
+let shuttingDown = false;
+
+function shutdown() {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  server.close(() => process.exit(0));
+}
+
+// Shut down once the socket is gone: the sandbox directory was removed, or a
+// new worker replaced this one
+function watchSocket() {
+  const timer = setInterval(async () => {
+    if (await stat(socketPath).then(() => true, () => false)) return;
+    clearInterval(timer);
+    shutdown();
+  }, 5_000);
+  timer.unref();
+}
+
+if (!socketPath) {
+  console.error("Usage: node sandbox-worker.mjs <socketPath>");
   process.exit(1);
 }
 
-const payload = payloadJson ? JSON.parse(payloadJson) : { args: [] };
+listen();
+watchSocket();
+`;
+
+/**
+ * Per-call client for the worker daemon. Starts the daemon if it isn't
+ * running, forwards the call, and relays the call's output and exit code,
+ * so from the host it behaves exactly like the one-shot runner.
+ *
+ * Usage:
+ *   node sandbox-worker-client.mjs <fnId> <payloadPath> <bundleHash>
+ *
+ * One worker runs per user, so sudo and non-sudo calls don't share one.
+ */
+export const WORKER_CLIENT_SCRIPT = `
+import { spawn } from "node:child_process";
+import { openSync } from "node:fs";
+import { connect } from "node:net";
+import { dirname, join } from "node:path";
+import { createInterface } from "node:readline";
+import { fileURLToPath } from "node:url";
+
+const PROTOCOL_VERSION = ${RUNNER_PROTOCOL_VERSION};
+const START_TIMEOUT_MS = 10_000;
+
+const dir = dirname(fileURLToPath(import.meta.url));
+const name = "sandbox-worker-" + (process.getuid?.() ?? 0);
+const socketPath = join(dir, name + ".sock");
+
+function startWorker() {
+  const log = openSync(join(dir, name + ".log"), "a");
+  spawn(process.execPath, [join(dir, "sandbox-worker.mjs"), socketPath], {
+    detached: true,
+    stdio: ["ignore", log, log],
+  }).unref();
+}
 
-run(fnId, payload)
-  .then(result => {
-    console.log(JSON.stringify({ __result: result }));
-  })
-  .catch(err => {
-    console.error(JSON.stringify({ __error: err.message, __stack: err.stack }));
-    process.exit(1);
+function tryConnect() {
+  return new Promise((resolve, reject) => {
+    const socket = connect(socketPath, () => resolve(socket));
+    socket.once("error", reject);
   });
+}
+
+async function connectToWorker() {
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  let started = false;
+  for (;;) {
+    try {
+      return await tryConnect();
+    } catch (err) {
+      if (Date.now() > deadline) throw err;
+      if (!started) {
+        startWorker();
+        started = true;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+  }
+}
+
+// Resolves to the call's exit code, "stale", or null if the worker died
+async function call(request) {
+  const socket = await connectToWorker();
+  socket.write(JSON.stringify(request) + "\\n");
+
+  // The host cancels with SIGTERM; pass it on and wait for the call to end
+  const onTerm = () => socket.write(JSON.stringify({ type: "abort" }) + "\\n");
+  process.on("SIGTERM", onTerm);
+
+  let outcome = null;
+  try {
+    for await (const line of createInterface({ input: socket })) {
+      const message = JSON.parse(line);
+      if (message.type === "stdout" || message.type === "stderr") {
+        process[message.type].write(Buffer.from(message.data, "base64"));
+      } else if (message.type === "exit") {
+        outcome = message.code;
+      } else if (message.type === "stale") {
+        outcome = "stale";
+      }
+    }
+  } finally {
+    process.off("SIGTERM", onTerm);
+  }
+  return outcome;
+}
+
+async function main(fnId, payloadPath, bundleHash) {
+  const request = { protocol: PROTOCOL_VERSION, fnId, payloadPath, bundleHash };
+
+  let outcome = await call(request);
+  if (outcome === "stale") {
+    // The old worker has stopped accepting calls; this starts a new one
+    outcome = await call(request);
+  }
+
+  if (typeof outcome !== "number") {
+    console.error("[use-sandbox] Sandbox worker exited during the call; see " + join(dir, name + ".log"));
+    process.exitCode = 1;
+    return;
+  }
+  process.exitCode = outcome;
+}
+
+const [,, fnId, payloadPath, bundleHash] = process.argv;
+
+if (!fnId || !payloadPath || !bundleHash) {
+  console.error("Usage: node sandbox-worker-client.mjs <fnId> <payloadPath> <bundleHash>");
+  process.exit(1);
+}
+
+main(fnId, payloadPath, bundleHash).catch((err) => {
+  console.error(err?.stack ?? String(err));
+  process.exit(1);
+});
 `;
 
 /**
- * Path where the runner script is written in the sandbox filesystem.
+ * Splits a generator call's stdout into chunk frames and regular output.
+ * Output may arrive in arbitrary pieces, so a frame (or the start of one)
+ * at the end of the input is held back until the rest arrives.
  */
-export const RUNNER_SCRIPT_PATH = "/tmp/sandbox-runner.mjs";
+export class ChunkFrameParser {
+  private buffer = "";
+  private readonly prefix: string;
+
+  constructor(chunkToken: string) {
+    this.prefix = `\x1e${CHUNK_FRAME_MAGIC}:${chunkToken}:`;
+  }
+
+  /**
+   * Feed stdout data. Returns the output that isn't part of a frame, and the
+   * encoded values of the frames completed so far.
+   */
+  push(data: string): { output: string; chunks: unknown[] } {
+    this.buffer += data;
+    let output = "";
+    const chunks: unknown[] = [];
+
+    for (;;) {
+      const start = this.buffer.indexOf(this.prefix);
+      if (start === -1) {
+        // Keep a possible partial prefix at the end for the next push
+        const keep = this.partialPrefixLength();
+        output += this.buffer.slice(0, this.buffer.length - keep);
+        this.buffer = this.buffer.slice(this.buffer.length - keep);
+        break;
+      }
+
+      output += this.buffer.slice(0, start);
+      const end = this.buffer.indexOf("\n", start);
+      if (end === -1) {
+        this.buffer = this.buffer.slice(start);
+        break;
+      }
+
+      chunks.push(JSON.parse(this.buffer.slice(start + this.prefix.length, end)));
+      this.buffer = this.buffer.slice(end + 1);
+    }
+
+    return { output, chunks };
+  }
+
+  /**
+   * Output held back at the end of the stream.
+   */
+  flush(): string {
+    const rest = this.buffer;
+    this.buffer = "";
+    return rest;
+  }
+
+  private partialPrefixLength(): number {
+    const max = Math.min(this.prefix.length - 1, this.buffer.length);
+    for (let length = max; length > 0; length--) {
+      if (this.prefix.startsWith(this.buffer.slice(-length))) return length;
+    }
+    return 0;
+  }
+}
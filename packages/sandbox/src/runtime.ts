@@ -1,10 +1,53 @@
-import { Sandbox } from "@vercel/sandbox";
-import { sandboxContext, hasSandboxContext } from "./context.js";
+import { decode, serialize } from "./codec.js";
 import {
+  sandboxContext,
+  hasSandboxContext,
+  type SandboxContextValue,
+} from "./context.js";
+import {
+  AbortError,
+  SandboxError,
+  SandboxExpiredError,
+  SandboxInfrastructureError,
+  SandboxProtocolError,
+  SandboxTimeoutError,
+  toRemoteError,
+} from "./errors.js";
+import { createSandboxFiles, type SandboxFiles } from "./files.js";
+import { parseCommand } from "./shell.js";
+import {
+  getDefaultProvider,
+  type SandboxCommandResult,
+  type SandboxCreateParams,
+  type SandboxInstance,
+  type SandboxProvider,
+} from "./provider.js";
+import {
+  acquireRunSlot,
+  clearIdleTimer,
+  createPoolEntry,
+  findLeastRecentlyUsed,
+  getGlobalPool,
+  getPendingEntries,
+  type PoolEntry,
+} from "./pool.js";
+import {
+  RUNNER_PROTOCOL_VERSION,
   RUNNER_SCRIPT,
   RUNNER_SCRIPT_PATH,
   SANDBOX_BUNDLE_PATH,
+  SANDBOX_DEPENDENCIES_DIR,
+  WORKER_CLIENT_SCRIPT,
+  WORKER_CLIENT_SCRIPT_PATH,
+  WORKER_SCRIPT,
+  WORKER_SCRIPT_PATH,
+  getPayloadPath,
+  getResultPath,
+  parseResultFrame,
+  ChunkFrameParser,
+  type RunnerResult,
 } from "./runner.js";
+import { createHash, randomUUID } from "crypto";
 import { readFileSync } from "fs";
 import { join } from "path";
 
@@ -12,12 +55,140 @@ import { join } from "path";
 // Sandbox Configuration
 // ============================================================================
 
-type CreateSandboxParams = NonNullable<Parameters<typeof Sandbox.create>[0]>;
+const DEFAULT_SANDBOX_TIMEOUT = 300_000;
+
+export interface SandboxConfig extends SandboxCreateParams {
+  /**
+   * Where sandboxes are created.
+   * @default getDefaultProvider() (Vercel Sandbox)
+   */
+  provider?: SandboxProvider;
+
+  /**
+   * Maximum number of sandboxes kept in the pool. When a new key needs a
+   * sandbox and the pool is full, `eviction` decides what happens.
+   */
+  maxSandboxes?: number;
+
+  /**
+   * Stop a pooled sandbox after it has gone this long without a run.
+   */
+  idleTimeoutMs?: number;
+
+  /**
+   * What to do when the pool is full:
+   * - "lru": stop the least-recently-used idle sandbox
+   * - "reject": throw instead of creating another sandbox
+   * @default "lru"
+   */
+  eviction?: "lru" | "reject";
+
+  /**
+   * Called before an evicted sandbox is stopped, e.g. to log or persist state.
+   */
+  onEvict?: (event: EvictionEvent) => void | Promise<void>;
+
+  /**
+   * Called when a pooled sandbox was found to have expired or stopped and
+   * was transparently replaced. Anything written to its filesystem is lost.
+   */
+  onRecycle?: (event: RecycleEvent) => void | Promise<void>;
+
+  /**
+   * npm packages to install in the sandbox before the first run, e.g.
+   * `["sharp@0.33.5"]`. Packages imported by sandbox functions must also be
+   * listed in `withSandbox({ externalDependencies })` so they are left out
+   * of the bundle; those are installed automatically.
+   */
+  externalDependencies?: string[];
+
+  /**
+   * Called when a key gets a fresh sandbox: on first use, and again whenever
+   * an expired sandbox is replaced. Use it for one-time setup like
+   * installing tools. Runs after the runner, bundle and dependencies are
+   * installed and before the first run; if it throws, the run fails and the
+   * next run for the key tries again.
+   */
+  onCreate?: (event: CreateEvent) => void | Promise<void>;
+
+  /**
+   * Called before each sandbox function runs. Throw to cancel the run.
+   */
+  beforeRun?: (event: RunEvent) => void | Promise<void>;
+
+  /**
+   * Called after each sandbox function finishes, whether it succeeded or not.
+   */
+  afterRun?: (event: AfterRunEvent) => void | Promise<void>;
+
+  /**
+   * Called before a pooled sandbox is stopped, by stop()/stopAll() or an
+   * eviction (after `onEvict`).
+   */
+  onStop?: (event: StopEvent) => void | Promise<void>;
+
+  /**
+   * Serve calls from a long-lived worker process in the sandbox instead of
+   * starting `node` for every call. The bundle stays loaded, so calls start
+   * faster and module-level state (caches, connections) survives between
+   * calls. The worker reloads the bundle when a new one is installed.
+   * @default false
+   */
+  worker?: boolean;
+}
+
+export interface RecycleEvent {
+  key: string;
+  /** Id of the sandbox that stopped; its filesystem state is gone */
+  previousSandboxId: string;
+  /** The fresh sandbox now assigned to the key */
+  sandbox: SandboxInstance;
+  reason: "expired";
+}
+
+export interface EvictionEvent {
+  key: string;
+  sandbox: SandboxInstance;
+  reason: "idle" | "capacity";
+}
 
-export type SandboxConfig = Pick<
-  CreateSandboxParams,
-  "resources" | "timeout" | "source" | "runtime"
->;
+export interface CreateEvent {
+  key: string;
+  sandbox: SandboxInstance;
+}
+
+export interface RunEvent {
+  key: string;
+  /** Id of the sandbox function, as generated by the transformer */
+  fnId: string;
+  sandbox: SandboxInstance;
+}
+
+export interface AfterRunEvent extends RunEvent {
+  /** Time spent in the sandbox, excluding queueing and sandbox startup */
+  durationMs: number;
+  /** What the function threw, if it failed */
+  error?: unknown;
+}
+
+export interface StopEvent {
+  key: string;
+  sandbox: SandboxInstance;
+  reason: "stop" | EvictionEvent["reason"];
+}
+
+/**
+ * Pick the parameters that are forwarded to `provider.create()`.
+ */
+function toCreateParams(config: SandboxConfig): SandboxCreateParams {
+  const { resources, timeout, source, runtime } = config;
+  return {
+    timeout: timeout ?? DEFAULT_SANDBOX_TIMEOUT,
+    ...(resources && { resources }),
+    ...(source && { source }),
+    ...(runtime && { runtime }),
+  };
+}
 
 /**
  * Options for a single sandbox.run() call.
@@ -33,12 +204,132 @@ export interface RunOptions {
    * @default true
    */
   sudo?: boolean;
+
+  /**
+   * Maximum number of runs executing at once for this key. Extra runs wait
+   * in FIFO order. Use 1 for agents whose tool calls must run in sequence.
+   * @default unlimited
+   */
+  concurrency?: number;
+
+  /**
+   * Called with stdout of the sandbox function as it's produced.
+   */
+  onStdout?: (data: string) => void;
+
+  /**
+   * Called with stderr of the sandbox function as it's produced.
+   */
+  onStderr?: (data: string) => void;
+
+  /**
+   * Called with stdout and stderr interleaved, in the order they arrived.
+   */
+  onLog?: (entry: LogEntry) => void;
+
+  /**
+   * Cancel the run. The runner in the sandbox is killed, the function sees
+   * `getRunContext().signal` abort, and the run rejects with AbortError.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Cancel the run if it hasn't finished after this many milliseconds,
+   * including time spent waiting for a concurrency slot. The run rejects
+   * with SandboxTimeoutError.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for sandbox.shell().
+ */
+export interface ShellOptions {
+  /**
+   * Unique key for sandbox pooling.
+   */
+  key: string;
+
+  /**
+   * Run commands with root privileges.
+   * @default true
+   */
+  sudo?: boolean;
+
+  /**
+   * Working directory of the commands.
+   */
+  cwd?: string;
+
+  /**
+   * Environment variables added to the commands' environment.
+   */
+  env?: Record<string, string>;
+}
+
+/**
+ * Template tag returned by sandbox.shell(). Resolves with the command's
+ * output and exit code; a non-zero exit code doesn't reject.
+ */
+export type SandboxShell = (
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+) => Promise<SandboxCommandResult>;
+
+export interface LogEntry {
+  stream: "stdout" | "stderr";
+  data: string;
+}
+
+/**
+ * Result of sandbox.runDetailed().
+ */
+export interface RunResult<T> {
+  /** What the function returned */
+  value: T;
+  /** Everything the function wrote to stdout */
+  stdout: string;
+  /** Everything the function wrote to stderr */
+  stderr: string;
+  /** Wall-clock time of the run, including queueing and sandbox startup */
+  durationMs: number;
+  /** Exit code of the last sandbox process the run started */
+  exitCode: number;
 }
 
 // ============================================================================
 // defineSandbox - Create a sandbox definition with pooling
 // ============================================================================
 
+/**
+ * Per-run state threaded into the sandbox context alongside the options.
+ */
+type RunExtras = Pick<SandboxContextValue, "signal" | "onExit">;
+
+/**
+ * Combine the output callbacks of a run into one handler. A throwing
+ * callback is logged rather than allowed to break the run.
+ */
+function toOutputHandler(
+  options: RunOptions
+): SandboxContextValue["onOutput"] {
+  const { onStdout, onStderr, onLog } = options;
+  if (!onStdout && !onStderr && !onLog) return undefined;
+
+  const call = <A>(callback: ((arg: A) => void) | undefined, arg: A) => {
+    try {
+      callback?.(arg);
+    } catch (err) {
+      console.error(`[use-sandbox] Output callback threw:`, err);
+    }
+  };
+
+  return (stream, data) => {
+    call(stream === "stdout" ? onStdout : onStderr, data);
+    call(onLog, { stream, data });
+  };
+}
+
 /**
  * Define a sandbox configuration for running sandbox functions.
  *
@@ -49,38 +340,31 @@ export interface RunOptions {
  *
  * // Use with a key for pooling
  * await sandbox.run(sessionId, myFunction, arg1, arg2);
+ *
+ * // Run locally in child processes (no Vercel credentials needed)
+ * export const local = defineSandbox({ provider: localProvider() });
  * ```
  */
 export function defineSandbox(config: SandboxConfig = {}): SandboxDefinition {
   return new SandboxDefinition(config);
 }
 
-// Global sandbox pool that survives hot-reload in dev mode.
-// Using a symbol key to avoid conflicts with other code.
-const GLOBAL_POOL_KEY = Symbol.for("@use-sandbox/pool");
-
-function getGlobalPool(): Map<string, Sandbox> {
-  const g = globalThis as Record<symbol, Map<string, Sandbox>>;
-  if (!g[GLOBAL_POOL_KEY]) {
-    g[GLOBAL_POOL_KEY] = new Map();
-  }
-  return g[GLOBAL_POOL_KEY];
-}
-
 /**
  * A sandbox definition that manages a pool of sandboxes by key.
  */
 export class SandboxDefinition {
   private config: SandboxConfig;
+  private provider: SandboxProvider;
 
   constructor(config: SandboxConfig) {
     this.config = config;
+    this.provider = config.provider ?? getDefaultProvider();
   }
 
   /**
    * Get the global pool (survives hot-reload).
    */
-  private get pool(): Map<string, Sandbox> {
+  private get pool(): Map<string, PoolEntry> {
     return getGlobalPool();
   }
 
@@ -90,6 +374,9 @@ export class SandboxDefinition {
    * Same key = same sandbox (pooled and reused).
    * Different key = different sandbox.
    *
+   * The key -> sandbox id mapping is persisted in storage, so other
+   * processes reattach to the same sandbox instead of creating a new one.
+   *
    * @param keyOrOptions - Unique key for sandbox pooling, or options object
    * @param fn - The sandbox function to run
    * @param args - Arguments to pass to the function (as array)
@@ -101,6 +388,9 @@ export class SandboxDefinition {
    *
    * // With options
    * await sandbox.run({ key: sessionId, sudo: false }, myFn, [arg1, arg2]);
+   *
+   * // One run at a time for this key, others queue
+   * await sandbox.run({ key: sessionId, concurrency: 1 }, myFn, [arg1, arg2]);
    * ```
    */
   async run<T, Args extends unknown[]>(
@@ -108,37 +398,339 @@ export class SandboxDefinition {
     fn: (...args: Args) => Promise<T>,
     args: Args
   ): Promise<T> {
-    const { key, sudo } =
-      typeof keyOrOptions === "string"
-        ? { key: keyOrOptions, sudo: true }
-        : { key: keyOrOptions.key, sudo: keyOrOptions.sudo ?? true };
-
-    // Get or create sandbox for this key
-    let sandbox = this.pool.get(key);
-
-    if (!sandbox) {
-      sandbox = await Sandbox.create({
-        timeout: 300_000,
-        ...this.config,
-      });
-      this.pool.set(key, sandbox);
+    const options: RunOptions =
+      typeof keyOrOptions === "string" ? { key: keyOrOptions } : keyOrOptions;
+    return this.runWithSlot(options, fn, args);
+  }
+
+  /**
+   * Like run(), but also returns the function's output, duration and exit
+   * code. Output callbacks in the options still fire as output arrives.
+   *
+   * @example
+   * ```typescript
+   * const { value, stdout, durationMs } = await sandbox.runDetailed(
+   *   sessionId,
+   *   myFn,
+   *   [arg1]
+   * );
+   * ```
+   */
+  async runDetailed<T, Args extends unknown[]>(
+    keyOrOptions: string | RunOptions,
+    fn: (...args: Args) => Promise<T>,
+    args: Args
+  ): Promise<RunResult<T>> {
+    const options: RunOptions =
+      typeof keyOrOptions === "string" ? { key: keyOrOptions } : keyOrOptions;
+    const startedAt = Date.now();
+    let stdout = "";
+    let stderr = "";
+    let exitCode = 0;
+
+    const value = await this.runWithSlot(
+      {
+        ...options,
+        onStdout: (data) => {
+          stdout += data;
+          options.onStdout?.(data);
+        },
+        onStderr: (data) => {
+          stderr += data;
+          options.onStderr?.(data);
+        },
+      },
+      fn,
+      args,
+      (code) => {
+        exitCode = code;
+      }
+    );
+
+    return {
+      value,
+      stdout,
+      stderr,
+      durationMs: Date.now() - startedAt,
+      exitCode,
+    };
+  }
+
+  /**
+   * Wait for a concurrency slot (if limited), then run.
+   */
+  private async runWithSlot<T, Args extends unknown[]>(
+    options: RunOptions,
+    fn: (...args: Args) => Promise<T>,
+    args: Args,
+    onExit?: (exitCode: number) => void
+  ): Promise<T> {
+    const { key, concurrency } = options;
+    const { signal, dispose } = createRunSignal(options);
+
+    const run = async () => {
+      const releaseSlot =
+        concurrency !== undefined
+          ? await acquireRunSlot(key, concurrency)
+          : null;
+
+      try {
+        // The caller may have given up while this run was queued
+        signal?.throwIfAborted();
+        // The signal travels in the run context, so a sandbox call made
+        // after this point kills its process on abort
+        return await this.runWithEntry(options, fn, args, { signal, onExit });
+      } finally {
+        releaseSlot?.();
+      }
+    };
+
+    try {
+      // Don't keep the caller waiting on a queued or starting run
+      return await raceAbort(run(), signal);
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Run `fn` with the pooled sandbox for `options.key` in context.
+   */
+  private async runWithEntry<T, Args extends unknown[]>(
+    options: RunOptions,
+    fn: (...args: Args) => Promise<T>,
+    args: Args,
+    extras: RunExtras
+  ): Promise<T> {
+    const { key } = options;
+    const entry = await this.checkout(key);
+
+    try {
+      await this.prepare(key, entry);
+
+      // Run the function with this sandbox in context (including sudo option)
+      return await sandboxContext.run(
+        this.contextFor(entry, options, extras),
+        () => fn(...args)
+      );
+    } finally {
+      this.release(key, entry);
+    }
+  }
+
+  /**
+   * Stream the values yielded by a generator sandbox function.
+   *
+   * The sandbox stays checked out (and counts against `concurrency`) until
+   * iteration finishes. Breaking out of the loop early cancels the function
+   * like `signal` would.
+   *
+   * @example
+   * ```typescript
+   * for await (const line of sandbox.stream(sessionId, runTests, [])) {
+   *   console.log(line);
+   * }
+   * ```
+   */
+  async *stream<T, Args extends unknown[]>(
+    keyOrOptions: string | RunOptions,
+    fn: (...args: Args) => AsyncIterable<T>,
+    args: Args
+  ): AsyncGenerator<T, void, undefined> {
+    const options: RunOptions =
+      typeof keyOrOptions === "string" ? { key: keyOrOptions } : keyOrOptions;
+    const { key, concurrency } = options;
+    const { signal, dispose } = createRunSignal(options);
+
+    try {
+      let releaseSlot: (() => void) | null = null;
+      if (concurrency !== undefined) {
+        const slot = acquireRunSlot(key, concurrency);
+        releaseSlot = await raceAbort(slot, signal).catch((err) => {
+          // Give the slot back once we would have got it
+          void slot.then((release) => release());
+          throw err;
+        });
+      }
+
+      try {
+        signal?.throwIfAborted();
+        const entry = await this.checkout(key);
+        try {
+          await this.prepare(key, entry);
+
+          // The stub captures the context when called, not when iterated
+          yield* sandboxContext.run(
+            this.contextFor(entry, options, { signal }),
+            () => fn(...args)
+          );
+        } finally {
+          this.release(key, entry);
+        }
+      } finally {
+        releaseSlot?.();
+      }
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Move files in and out of the sandbox for `key` directly, without
+   * writing a sandbox function. Each call checks out the sandbox like a run
+   * (creating it if needed) but doesn't count against `concurrency`.
+   * Nothing is installed first, so `onCreate` waits for the first run.
+   *
+   * @example
+   * ```typescript
+   * const files = sandbox.files(sessionId);
+   * await files.uploadDir("./fixtures/repo", "/vercel/sandbox/repo");
+   * await sandbox.run(sessionId, build, ["/vercel/sandbox/repo"]);
+   * await files.downloadDir("/vercel/sandbox/repo/dist", "./artifacts");
+   * ```
+   */
+  files(key: string): SandboxFiles {
+    return createSandboxFiles((operation) =>
+      this.withSandbox(key, operation, { install: false })
+    );
+  }
+
+  /**
+   * Get a template tag that runs commands in the sandbox for `key` directly,
+   * without writing a sandbox function. Interpolated values are passed as
+   * single arguments, like with `$`. Nothing is installed first, so `onCreate`
+   * waits for the first run.
+   *
+   * @example
+   * ```typescript
+   * const sh = sandbox.shell({ key: sessionId, cwd: "/vercel/sandbox/repo" });
+   * const { stdout, exitCode } = await sh`git log -n 1 --format=%s ${branch}`;
+   * ```
+   */
+  shell(keyOrOptions: string | ShellOptions): SandboxShell {
+    const options: ShellOptions =
+      typeof keyOrOptions === "string" ? { key: keyOrOptions } : keyOrOptions;
+    const { key, sudo = true, cwd, env } = options;
+
+    return async (strings, ...values) => {
+      const [cmd, ...args] = parseCommand(strings, values);
+      return this.withSandbox(
+        key,
+        (sandbox) => sandbox.runCommand({ cmd, args, cwd, env, sudo }),
+        { install: false }
+      );
+    };
+  }
+
+  /**
+   * Run a provider operation on the pooled sandbox for `key`. With
+   * `install: false`, the runner and bundle aren't installed first.
+   */
+  private async withSandbox<T>(
+    key: string,
+    operation: (sandbox: SandboxInstance) => Promise<T>,
+    { install = true }: { install?: boolean } = {}
+  ): Promise<T> {
+    const entry = await this.checkout(key);
+
+    try {
+      if (install) {
+        await this.prepare(key, entry);
+      } else if (!(await entry.sandbox.isAlive())) {
+        await this.recycle(key, entry, entry.sandbox);
+      }
+      const { sandbox } = entry;
+      return await withLivenessCheck(sandbox, () => operation(sandbox));
+    } finally {
+      this.release(key, entry);
+    }
+  }
+
+  /**
+   * Make sure a checked-out entry has a live sandbox with the current runner
+   * and bundle installed.
+   */
+  private async prepare(key: string, entry: PoolEntry): Promise<void> {
+    // Replace the sandbox if it timed out or was stopped elsewhere
+    const current = entry.sandbox;
+    if (!(await current.isAlive())) {
+      await this.recycle(key, entry, current);
     }
 
     // Always ensure runner and bundle are up-to-date (checks hash on every use)
-    await ensureSandboxReady(sandbox, key);
+    const setup = {
+      dependencies: this.config.externalDependencies,
+      onCreate: (sandbox: SandboxInstance) => this.setUp(key, sandbox),
+    };
+    try {
+      await ensureSandboxReady(entry.sandbox, key, setup);
+    } catch (err) {
+      if (!(err instanceof SandboxExpiredError)) throw err;
+      // Expired between the liveness check and the install
+      await this.recycle(key, entry, entry.sandbox);
+      await ensureSandboxReady(entry.sandbox, key, setup);
+    }
+  }
 
-    // Run the function with this sandbox in context (including sudo option)
-    return sandboxContext.run({ sandbox, sudo }, () => fn(...args));
+  /**
+   * Run `onCreate` for a fresh sandbox.
+   */
+  private async setUp(key: string, sandbox: SandboxInstance): Promise<void> {
+    try {
+      await this.config.onCreate?.({ key, sandbox });
+    } catch (err) {
+      throw new SandboxError(
+        `[use-sandbox] onCreate failed for "${key}": ${errorMessage(err)}`,
+        { cause: err }
+      );
+    }
+  }
+
+  private contextFor(
+    entry: PoolEntry,
+    options: RunOptions,
+    extras: RunExtras
+  ): SandboxContextValue {
+    const { key } = options;
+    const { sandbox } = entry;
+    const { beforeRun, afterRun } = this.config;
+
+    return {
+      sandbox,
+      sudo: options.sudo ?? true,
+      worker: this.config.worker ?? false,
+      onOutput: toOutputHandler(options),
+      beforeCall: beforeRun && (async (fnId) => beforeRun({ key, fnId, sandbox })),
+      afterCall:
+        afterRun &&
+        (async (fnId, durationMs, error) => {
+          try {
+            await afterRun({ key, fnId, sandbox, durationMs, error });
+          } catch (err) {
+            console.error(`[use-sandbox] afterRun failed for "${key}":`, err);
+          }
+        }),
+      ...extras,
+    };
   }
 
   /**
    * Stop and remove a sandbox by key.
+   *
+   * Also stops a sandbox created for this key by another process.
    */
   async stop(key: string): Promise<void> {
-    const sandbox = this.pool.get(key);
+    const entry = this.pool.get(key);
+    if (entry) {
+      await this.remove(key, entry);
+      return;
+    }
+
+    const sandbox = await this.reattach(key);
     if (sandbox) {
+      await this.notifyStop(key, sandbox, "stop");
       await sandbox.stop();
-      this.pool.delete(key);
+      await getStorage().setSandboxId(key, null);
     }
   }
 
@@ -146,15 +738,239 @@ export class SandboxDefinition {
    * Stop all sandboxes in the pool.
    */
   async stopAll(): Promise<void> {
-    const promises = Array.from(this.pool.entries()).map(
-      async ([key, sandbox]) => {
-        await sandbox.stop();
-        this.pool.delete(key);
-      }
+    const promises = Array.from(this.pool.entries()).map(([key, entry]) =>
+      this.remove(key, entry)
     );
     await Promise.all(promises);
   }
 
+  /**
+   * Get the pool entry for a key (making room and creating it if needed)
+   * and mark it as in use.
+   */
+  private async checkout(key: string): Promise<PoolEntry> {
+    const entry = this.pool.get(key) ?? (await this.createEntry(key));
+
+    clearIdleTimer(entry);
+    entry.active++;
+    entry.lastUsedAt = Date.now();
+    return entry;
+  }
+
+  /**
+   * Replace an expired sandbox in place. Concurrent runs that saw the same
+   * expired sandbox share a single replacement.
+   */
+  private async recycle(
+    key: string,
+    entry: PoolEntry,
+    expired: SandboxInstance
+  ): Promise<void> {
+    if (!entry.recycling && entry.sandbox === expired) {
+      entry.recycling = this.replaceSandbox(key, entry).finally(() => {
+        entry.recycling = null;
+      });
+    }
+    await entry.recycling;
+  }
+
+  private async replaceSandbox(key: string, entry: PoolEntry): Promise<void> {
+    const previous = entry.sandbox;
+    const sandbox = await createSandbox(this.provider, toCreateParams(this.config));
+    getPendingSetup().add(sandbox);
+
+    // A new id resets the installed hash, so the bundle is reinstalled
+    await getStorage().setSandboxId(key, sandbox.id);
+    entry.sandbox = sandbox;
+
+    console.warn(
+      `[use-sandbox] Sandbox ${previous.id} for "${key}" is no longer running ` +
+        `and was recycled as ${sandbox.id}. Its filesystem state was lost.`
+    );
+
+    try {
+      await this.config.onRecycle?.({
+        key,
+        previousSandboxId: previous.id,
+        sandbox,
+        reason: "expired",
+      });
+    } catch (err) {
+      console.error(`[use-sandbox] onRecycle failed for "${key}":`, err);
+    }
+  }
+
+  /**
+   * Mark a run as finished and apply the idle/size policy.
+   */
+  private release(key: string, entry: PoolEntry): void {
+    entry.active--;
+    entry.lastUsedAt = Date.now();
+
+    const { idleTimeoutMs } = this.config;
+    if (entry.active === 0 && idleTimeoutMs !== undefined) {
+      entry.idleTimer = setTimeout(() => {
+        void this.evict(key, entry, "idle");
+      }, idleTimeoutMs);
+      entry.idleTimer.unref();
+    }
+
+    // Runs that were in flight may have pushed the pool over its limit
+    void this.trimToCapacity();
+  }
+
+  /**
+   * Ensure there is room for one more sandbox in the pool, for `key`.
+   */
+  private async makeRoom(key: string): Promise<void> {
+    const { maxSandboxes, eviction = "lru" } = this.config;
+    if (maxSandboxes === undefined) return;
+
+    // Sandboxes still being created for other keys count too, or concurrent
+    // first runs would each see room for themselves
+    const creating = [...getPendingEntries().keys()].filter(
+      (other) => other !== key && !this.pool.has(other)
+    ).length;
+    if (this.pool.size + creating < maxSandboxes) {
+      return;
+    }
+
+    if (eviction === "reject") {
+      throw new SandboxError(
+        `[use-sandbox] Sandbox pool is full (maxSandboxes: ${maxSandboxes}). ` +
+          `Stop an existing sandbox before using a new key.`
+      );
+    }
+
+    await this.trimToCapacity(maxSandboxes - 1 - creating);
+  }
+
+  /**
+   * Evict least-recently-used idle sandboxes until the pool fits the limit.
+   * Sandboxes with runs in flight are never evicted.
+   */
+  private async trimToCapacity(
+    limit = this.config.maxSandboxes
+  ): Promise<void> {
+    if (limit === undefined) return;
+
+    while (this.pool.size > limit) {
+      const lru = findLeastRecentlyUsed(this.pool);
+      if (!lru) return;
+      await this.evict(lru[0], lru[1], "capacity");
+    }
+  }
+
+  /**
+   * Notify `onEvict` and stop the sandbox, unless it was reused meanwhile.
+   */
+  private async evict(
+    key: string,
+    entry: PoolEntry,
+    reason: EvictionEvent["reason"]
+  ): Promise<void> {
+    if (this.pool.get(key) !== entry || entry.active > 0) {
+      return;
+    }
+
+    // Take it out of the pool first so no new run picks it up
+    this.pool.delete(key);
+
+    try {
+      await this.config.onEvict?.({ key, sandbox: entry.sandbox, reason });
+    } catch (err) {
+      console.error(`[use-sandbox] onEvict failed for "${key}":`, err);
+    }
+
+    try {
+      await this.remove(key, entry, reason);
+    } catch (err) {
+      console.error(`[use-sandbox] Failed to stop evicted sandbox "${key}":`, err);
+    }
+  }
+
+  /**
+   * Stop a pooled sandbox and forget it.
+   */
+  private async remove(
+    key: string,
+    entry: PoolEntry,
+    reason: StopEvent["reason"] = "stop"
+  ): Promise<void> {
+    clearIdleTimer(entry);
+    if (this.pool.get(key) === entry) {
+      this.pool.delete(key);
+    }
+    await this.notifyStop(key, entry.sandbox, reason);
+    await entry.sandbox.stop();
+    await getStorage().setSandboxId(key, null);
+  }
+
+  private async notifyStop(
+    key: string,
+    sandbox: SandboxInstance,
+    reason: StopEvent["reason"]
+  ): Promise<void> {
+    try {
+      await this.config.onStop?.({ key, sandbox, reason });
+    } catch (err) {
+      console.error(`[use-sandbox] onStop failed for "${key}":`, err);
+    }
+  }
+
+  /**
+   * Create the pool entry for a key. Concurrent callers for the same key
+   * share one creation, so only one sandbox is ever created per key.
+   */
+  private createEntry(key: string): Promise<PoolEntry> {
+    const pending = getPendingEntries();
+    let promise = pending.get(key);
+
+    if (!promise) {
+      promise = (async () => {
+        await this.makeRoom(key);
+        const entry = createPoolEntry(await this.acquire(key));
+        this.pool.set(key, entry);
+        return entry;
+      })().finally(() => pending.delete(key));
+      pending.set(key, promise);
+    }
+
+    return promise;
+  }
+
+  /**
+   * Reattach to the sandbox recorded for this key, or create a new one.
+   */
+  private async acquire(key: string): Promise<SandboxInstance> {
+    const existing = await this.reattach(key);
+    if (existing) {
+      return existing;
+    }
+
+    const sandbox = await createSandbox(this.provider, toCreateParams(this.config));
+    getPendingSetup().add(sandbox);
+    await getStorage().setSandboxId(key, sandbox.id);
+    return sandbox;
+  }
+
+  /**
+   * Look up the sandbox id persisted for this key (possibly by another
+   * process or serverless instance) and reattach to it if it's still alive.
+   */
+  private async reattach(key: string): Promise<SandboxInstance | null> {
+    if (!this.provider.get) {
+      return null;
+    }
+
+    const sandboxId = await getStorage().getSandboxId(key);
+    if (!sandboxId) {
+      return null;
+    }
+
+    return this.provider.get(sandboxId);
+  }
+
   /**
    * Get the number of active sandboxes in the pool.
    */
@@ -163,6 +979,117 @@ export class SandboxDefinition {
   }
 }
 
+// ============================================================================
+// Cancellation
+// ============================================================================
+
+/**
+ * Combine a run's `signal` and `timeoutMs` into one signal whose reason is
+ * an AbortError or SandboxTimeoutError. Call `dispose` when the run ends.
+ */
+function createRunSignal(options: RunOptions): {
+  signal?: AbortSignal;
+  dispose: () => void;
+} {
+  const { signal, timeoutMs } = options;
+  if (!signal && timeoutMs === undefined) {
+    return { dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () =>
+    controller.abort(new AbortError({ cause: signal!.reason }));
+  const timer =
+    timeoutMs !== undefined
+      ? setTimeout(
+          () => controller.abort(new SandboxTimeoutError(timeoutMs)),
+          timeoutMs
+        )
+      : null;
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+/**
+ * Reject as soon as `signal` aborts, even if `promise` is still pending
+ * (e.g. waiting for a concurrency slot).
+ */
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+// ============================================================================
+// Liveness
+// ============================================================================
+
+/**
+ * Run a provider operation, turning its opaque errors into a
+ * SandboxExpiredError if the sandbox is dead, or a SandboxInfrastructureError
+ * otherwise.
+ */
+async function withLivenessCheck<T>(
+  sandbox: SandboxInstance,
+  operation: () => Promise<T>
+): Promise<T> {
+  try {
+    return await operation();
+  } catch (err) {
+    // Already typed, e.g. cancelled by the caller (AbortError)
+    if (err instanceof SandboxError) {
+      throw err;
+    }
+    if (!(await sandbox.isAlive())) {
+      throw new SandboxExpiredError(sandbox.id, { cause: err });
+    }
+    throw new SandboxInfrastructureError(
+      `Sandbox ${sandbox.id} operation failed: ${errorMessage(err)}`,
+      { cause: err }
+    );
+  }
+}
+
+/**
+ * Create a sandbox, wrapping provider failures in a SandboxInfrastructureError.
+ */
+async function createSandbox(
+  provider: SandboxProvider,
+  params: SandboxCreateParams
+): Promise<SandboxInstance> {
+  try {
+    return await provider.create(params);
+  } catch (err) {
+    throw new SandboxInfrastructureError(
+      `Failed to create a ${provider.name} sandbox: ${errorMessage(err)}`,
+      { cause: err }
+    );
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
 // ============================================================================
 // Bundle and Runner Management
 // ============================================================================
@@ -170,6 +1097,7 @@ export class SandboxDefinition {
 // Cache for bundle content (read once from disk)
 let cachedBundleContent: string | null = null;
 let cachedBundleHash: string | null = null;
+let cachedBundleDependencies: string[] = [];
 
 import { getStorage } from "./storage.js";
 
@@ -177,7 +1105,7 @@ import { getStorage } from "./storage.js";
 // This is okay to lose on process restart since runner script is static
 const RUNNER_INSTALLED_KEY = Symbol.for("@use-sandbox/runner-installed");
 
-type RunnerInstalledMap = WeakMap<Sandbox, boolean>;
+type RunnerInstalledMap = WeakMap<SandboxInstance, boolean>;
 
 function getRunnerInstalledMap(): RunnerInstalledMap {
   const g = globalThis as Record<symbol, RunnerInstalledMap>;
@@ -191,6 +1119,14 @@ interface BundleManifest {
   hash: string;
   bundleFile: string;
   functions: Array<{ id: string; sourceFile: string }>;
+  /** Left external by the bundler, installed with npm (older builds omit it) */
+  externalDependencies?: string[];
+}
+
+interface BundleContent {
+  content: string;
+  hash: string;
+  dependencies: string[];
 }
 
 /**
@@ -198,12 +1134,16 @@ interface BundleManifest {
  * In development, always re-reads to pick up changes.
  * In production, caches the result for performance.
  */
-function getBundleContent(): { content: string; hash: string } {
+function getBundleContent(): BundleContent {
   const isDev = process.env.NODE_ENV !== "production";
 
   // In production, use cached content if available
   if (!isDev && cachedBundleContent && cachedBundleHash) {
-    return { content: cachedBundleContent, hash: cachedBundleHash };
+    return {
+      content: cachedBundleContent,
+      hash: cachedBundleHash,
+      dependencies: cachedBundleDependencies,
+    };
   }
 
   const manifestPath = join(
@@ -215,7 +1155,7 @@ function getBundleContent(): { content: string; hash: string } {
   try {
     manifest = JSON.parse(readFileSync(manifestPath, "utf-8"));
   } catch (err) {
-    throw new Error(
+    throw new SandboxError(
       `Failed to read sandbox manifest at ${manifestPath}. ` +
         `Make sure you've built your app with the withSandbox() plugin configured. ` +
         `Error: ${(err as Error).message}`
@@ -231,21 +1171,89 @@ function getBundleContent(): { content: string; hash: string } {
   try {
     cachedBundleContent = readFileSync(bundlePath, "utf-8");
     cachedBundleHash = manifest.hash;
+    cachedBundleDependencies = manifest.externalDependencies ?? [];
   } catch (err) {
-    throw new Error(
+    throw new SandboxError(
       `Failed to read sandbox bundle at ${bundlePath}. ` +
         `Error: ${(err as Error).message}`
     );
   }
 
-  return { content: cachedBundleContent, hash: cachedBundleHash };
+  return {
+    content: cachedBundleContent,
+    hash: cachedBundleHash,
+    dependencies: cachedBundleDependencies,
+  };
+}
+
+// Installs in flight per sandbox, so concurrent runs don't race on writeFiles
+const INSTALLS_KEY = Symbol.for("@use-sandbox/installs-in-flight");
+
+function getInstallsInFlight(): WeakMap<SandboxInstance, Promise<void>> {
+  const g = globalThis as Record<
+    symbol,
+    WeakMap<SandboxInstance, Promise<void>>
+  >;
+  if (!g[INSTALLS_KEY]) {
+    g[INSTALLS_KEY] = new WeakMap();
+  }
+  return g[INSTALLS_KEY];
+}
+
+// Sandboxes created by this process whose onCreate hook hasn't succeeded yet
+const PENDING_SETUP_KEY = Symbol.for("@use-sandbox/pending-setup");
+
+function getPendingSetup(): WeakSet<SandboxInstance> {
+  const g = globalThis as Record<symbol, WeakSet<SandboxInstance>>;
+  if (!g[PENDING_SETUP_KEY]) {
+    g[PENDING_SETUP_KEY] = new WeakSet();
+  }
+  return g[PENDING_SETUP_KEY];
+}
+
+interface SandboxSetup {
+  /** SandboxConfig.externalDependencies, installed with the bundle's */
+  dependencies?: string[];
+  /** Runs once the sandbox is ready, if it's fresh */
+  onCreate?: (sandbox: SandboxInstance) => Promise<void>;
 }
 
 /**
- * Ensure the runner script and bundle are installed in the sandbox.
+ * Ensure the runner script, bundle and external dependencies are installed
+ * in the sandbox, then run `onCreate` if the sandbox is fresh.
+ * Concurrent calls for the same sandbox share a single install.
  */
-async function ensureSandboxReady(
-  sandbox: Sandbox,
+function ensureSandboxReady(
+  sandbox: SandboxInstance,
+  sandboxKey: string,
+  { dependencies = [], onCreate }: SandboxSetup = {}
+): Promise<void> {
+  const installs = getInstallsInFlight();
+  let install = installs.get(sandbox);
+
+  if (!install) {
+    install = (async () => {
+      await installRunnerAndBundle(sandbox, sandboxKey);
+      await installDependencies(
+        sandbox,
+        sandboxKey,
+        mergeDependencies(getBundleContent().dependencies, dependencies)
+      );
+
+      const pendingSetup = getPendingSetup();
+      if (onCreate && pendingSetup.has(sandbox)) {
+        await onCreate(sandbox);
+        pendingSetup.delete(sandbox);
+      }
+    })().finally(() => installs.delete(sandbox));
+    installs.set(sandbox, install);
+  }
+
+  return install;
+}
+
+async function installRunnerAndBundle(
+  sandbox: SandboxInstance,
   sandboxKey: string
 ): Promise<void> {
   const runnerMap = getRunnerInstalledMap();
@@ -253,18 +1261,29 @@ async function ensureSandboxReady(
 
   // Use storage for bundle hash (persists across processes)
   const storage = getStorage();
-  const installedHash = storage.getInstalledHash(sandboxKey);
+  const installedHash = await storage.getInstalledHash(sandboxKey);
 
   const { content: bundleContent, hash: bundleHash } = getBundleContent();
 
   const filesToWrite: Array<{ path: string; content: Buffer }> = [];
 
-  // Add runner if not installed (in-memory check is fine, runner is static)
+  // Add runner and worker scripts if not installed (in-memory check is
+  // fine, they are static)
   if (!runnerInstalled) {
-    filesToWrite.push({
-      path: RUNNER_SCRIPT_PATH,
-      content: Buffer.from(RUNNER_SCRIPT, "utf-8"),
-    });
+    filesToWrite.push(
+      {
+        path: RUNNER_SCRIPT_PATH,
+        content: Buffer.from(RUNNER_SCRIPT, "utf-8"),
+      },
+      {
+        path: WORKER_SCRIPT_PATH,
+        content: Buffer.from(WORKER_SCRIPT, "utf-8"),
+      },
+      {
+        path: WORKER_CLIENT_SCRIPT_PATH,
+        content: Buffer.from(WORKER_CLIENT_SCRIPT, "utf-8"),
+      }
+    );
   }
 
   // Add bundle if not installed or hash changed (uses persistent storage)
@@ -276,13 +1295,13 @@ async function ensureSandboxReady(
   }
 
   if (filesToWrite.length > 0) {
-    await sandbox.writeFiles(filesToWrite);
+    await withLivenessCheck(sandbox, () => sandbox.writeFiles(filesToWrite));
     runnerMap.set(sandbox, true);
-    storage.setInstalledHash(sandboxKey, bundleHash);
+    await storage.setInstalledHash(sandboxKey, bundleHash);
 
     // Log when bundle is updated (helpful for debugging hot-reload)
     const isDev = process.env.NODE_ENV !== "production";
-    if (isDev && installedHash !== null) {
+    if (isDev && installedHash !== null && installedHash !== bundleHash) {
       console.log(
         `[use-sandbox] Bundle updated in sandbox (${installedHash?.slice(0, 8)} -> ${bundleHash.slice(0, 8)})`
       );
@@ -290,6 +1309,103 @@ async function ensureSandboxReady(
   }
 }
 
+// Installed dependency hashes, for storages without get/setDependenciesHash
+const DEPENDENCIES_INSTALLED_KEY = Symbol.for(
+  "@use-sandbox/dependencies-installed"
+);
+
+function getDependenciesInstalledMap(): WeakMap<SandboxInstance, string> {
+  const g = globalThis as Record<symbol, WeakMap<SandboxInstance, string>>;
+  if (!g[DEPENDENCIES_INSTALLED_KEY]) {
+    g[DEPENDENCIES_INSTALLED_KEY] = new WeakMap();
+  }
+  return g[DEPENDENCIES_INSTALLED_KEY];
+}
+
+/**
+ * Package name of an npm spec: "sharp@^0.33.0" -> "sharp",
+ * "@img/sharp-linux-x64@0.33.0" -> "@img/sharp-linux-x64". Shared with the
+ * bundler, so both agree on which package a spec names.
+ */
+export function packageName(spec: string): string {
+  const at = spec.indexOf("@", 1);
+  return at === -1 ? spec : spec.slice(0, at);
+}
+
+/**
+ * Combine dependency lists, one spec per package. A spec with a version
+ * overrides an earlier one for the same package.
+ */
+function mergeDependencies(...lists: string[][]): string[] {
+  const byName = new Map<string, string>();
+  for (const spec of lists.flat()) {
+    const name = packageName(spec);
+    if (spec !== name || !byName.has(name)) {
+      byName.set(name, spec);
+    }
+  }
+  return Array.from(byName.values()).sort();
+}
+
+/**
+ * npm install the dependencies, unless this exact list is already installed.
+ * The whole list is installed every time, so removed packages are pruned.
+ */
+async function installDependencies(
+  sandbox: SandboxInstance,
+  sandboxKey: string,
+  specs: string[]
+): Promise<void> {
+  if (specs.length === 0) {
+    return;
+  }
+
+  const hash = createHash("sha256")
+    .update(specs.join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+
+  const storage = getStorage();
+  const installedMap = getDependenciesInstalledMap();
+  const installedHash = storage.getDependenciesHash
+    ? await storage.getDependenciesHash(sandboxKey)
+    : (installedMap.get(sandbox) ?? null);
+  if (installedHash === hash) {
+    return;
+  }
+
+  const { exitCode, stdout, stderr } = await withLivenessCheck(sandbox, () =>
+    sandbox.runCommand({
+      cmd: "npm",
+      args: [
+        "install",
+        "--no-save",
+        "--no-package-lock",
+        "--no-audit",
+        "--no-fund",
+        "--prefix",
+        sandbox.resolvePath(SANDBOX_DEPENDENCIES_DIR),
+        ...specs,
+      ],
+    })
+  );
+  if (exitCode !== 0) {
+    throw new SandboxInfrastructureError(
+      `[use-sandbox] Failed to install external dependencies ` +
+        `(${specs.join(", ")}):\n${stderr}`,
+      { exitCode, stdout, stderr }
+    );
+  }
+
+  installedMap.set(sandbox, hash);
+  await storage.setDependenciesHash?.(sandboxKey, hash);
+  if (process.env.NODE_ENV !== "production") {
+    console.log(
+      `[use-sandbox] Installed external dependencies: ${specs.join(", ")}`
+    );
+  }
+}
+
 // ============================================================================
 // __runSandboxFn - Called by transformed "use sandbox" functions
 // ============================================================================
@@ -317,77 +1433,319 @@ export async function __runSandboxFn<T>(
   const ctx = sandboxContext.getStore();
 
   if (ctx) {
-    // Use the existing sandbox and sudo setting from context
-    return executeInSandbox(ctx.sandbox, fnId, args, closureVars, ctx.sudo);
+    // Use the existing sandbox and settings from context
+    return executeInSandbox(ctx.sandbox, fnId, args, closureVars, ctx);
   }
 
   // No context - create an ephemeral sandbox for this call
-  const sandbox = await Sandbox.create({
-    timeout: 300_000,
-    ...config,
-  });
+  const provider = config.provider ?? getDefaultProvider();
+  const sandbox = await createSandbox(provider, toCreateParams(config));
 
   try {
     // Ephemeral sandboxes use a unique key (won't persist, but that's fine)
     const ephemeralKey = `ephemeral-${Date.now()}`;
-    await ensureSandboxReady(sandbox, ephemeralKey);
+    await ensureSandboxReady(sandbox, ephemeralKey, {
+      dependencies: config.externalDependencies,
+    });
     return await executeInSandbox(sandbox, fnId, args, closureVars);
   } finally {
     await sandbox.stop();
   }
 }
 
+export type RunSandboxGeneratorOptions = RunSandboxFnOptions;
+
+/**
+ * Internal function called by transformed "use sandbox" generator functions.
+ *
+ * Like __runSandboxFn, but returns the values the function yields as they
+ * are produced.
+ */
+export function __runSandboxGenerator<T>(
+  options: RunSandboxGeneratorOptions
+): AsyncGenerator<T, void, undefined> {
+  // Capture the context now: the generator body only runs once iterated,
+  // which may be outside sandbox.run()
+  return streamSandboxFn<T>(options, sandboxContext.getStore());
+}
+
+async function* streamSandboxFn<T>(
+  options: RunSandboxGeneratorOptions,
+  ctx: SandboxContextValue | undefined
+): AsyncGenerator<T, void, undefined> {
+  const { fnId, config = {}, args, closureVars } = options;
+
+  if (ctx) {
+    yield* streamInSandbox<T>(ctx.sandbox, fnId, args, closureVars, ctx);
+    return;
+  }
+
+  // No context - create an ephemeral sandbox for this call
+  const provider = config.provider ?? getDefaultProvider();
+  const sandbox = await createSandbox(provider, toCreateParams(config));
+
+  try {
+    const ephemeralKey = `ephemeral-${Date.now()}`;
+    await ensureSandboxReady(sandbox, ephemeralKey, {
+      dependencies: config.externalDependencies,
+    });
+    yield* streamInSandbox<T>(sandbox, fnId, args, closureVars);
+  } finally {
+    await sandbox.stop();
+  }
+}
+
+/**
+ * Run a generator function in the given sandbox, yielding its values as the
+ * runner reports them.
+ */
+async function* streamInSandbox<T>(
+  sandbox: SandboxInstance,
+  fnId: string,
+  args: unknown[],
+  closureVars?: Record<string, unknown>,
+  settings?: Partial<Omit<SandboxContextValue, "sandbox">>
+): AsyncGenerator<T, void, undefined> {
+  const pending: T[] = [];
+  let wake: (() => void) | null = null;
+  let finished = false;
+  let failure: { error: unknown } | null = null;
+
+  // Cancelled by the run's signal, or by the consumer breaking out early
+  const controller = new AbortController();
+  const parentSignal = settings?.signal;
+  const onParentAbort = () => controller.abort(parentSignal!.reason);
+  if (parentSignal?.aborted) onParentAbort();
+  else parentSignal?.addEventListener("abort", onParentAbort, { once: true });
+
+  // Handled here, so an early break doesn't leave a rejection unobserved
+  executeInSandbox(
+    sandbox,
+    fnId,
+    args,
+    closureVars,
+    { ...settings, signal: controller.signal },
+    (value) => {
+      pending.push(value as T);
+      wake?.();
+    }
+  ).then(
+    () => {
+      finished = true;
+      wake?.();
+    },
+    (error) => {
+      failure = { error };
+      finished = true;
+      wake?.();
+    }
+  );
+
+  try {
+    for (;;) {
+      if (pending.length > 0) {
+        yield pending.shift()!;
+        continue;
+      }
+      if (finished) break;
+      await new Promise<void>((resolve) => (wake = resolve));
+      wake = null;
+    }
+  } finally {
+    parentSignal?.removeEventListener("abort", onParentAbort);
+    if (!finished) controller.abort(new AbortError());
+  }
+
+  if (failure) throw (failure as { error: unknown }).error;
+}
+
 /**
  * Execute a function in the given sandbox.
+ *
+ * With `onChunk`, the function is expected to be a generator and each value
+ * it yields is passed to `onChunk` as soon as it arrives.
  */
 async function executeInSandbox<T>(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   fnId: string,
   args: unknown[],
   closureVars?: Record<string, unknown>,
-  sudo: boolean = true
+  settings: Partial<Omit<SandboxContextValue, "sandbox">> = {},
+  onChunk?: (value: unknown) => void
 ): Promise<T> {
+  const { beforeCall, afterCall } = settings;
+  await beforeCall?.(fnId);
+
+  const startedAt = Date.now();
+  let value: T;
+  try {
+    value = await callRunner<T>(
+      sandbox,
+      fnId,
+      args,
+      closureVars,
+      settings,
+      onChunk
+    );
+  } catch (err) {
+    await afterCall?.(fnId, Date.now() - startedAt, err);
+    throw err;
+  }
+  await afterCall?.(fnId, Date.now() - startedAt);
+  return value;
+}
+
+/**
+ * Write the payload, start the runner (or worker client) and read back the
+ * result frame.
+ */
+async function callRunner<T>(
+  sandbox: SandboxInstance,
+  fnId: string,
+  args: unknown[],
+  closureVars?: Record<string, unknown>,
+  {
+    sudo = true,
+    worker = false,
+    onOutput,
+    onExit,
+    signal,
+  }: Partial<Omit<SandboxContextValue, "sandbox">> = {},
+  onChunk?: (value: unknown) => void
+): Promise<T> {
+  signal?.throwIfAborted();
+
+  // One id per call names both the payload and the result file
+  const callId = randomUUID();
+  const payloadPath = getPayloadPath(callId);
+  const resultPath = getResultPath(callId);
+
   // Build payload for runner
-  const payload: { args: unknown[]; closureVars?: Record<string, unknown> } = {
+  const payload: {
+    protocol: number;
+    resultPath: string;
+    args: unknown[];
+    closureVars?: Record<string, unknown>;
+    chunkToken?: string;
+  } = {
+    protocol: RUNNER_PROTOCOL_VERSION,
+    resultPath: sandbox.resolvePath(resultPath),
     args,
   };
   if (closureVars) {
     payload.closureVars = closureVars;
   }
 
-  const payloadJson = JSON.stringify(payload);
-  const result = await sandbox.runCommand({
-    cmd: "node",
-    args: [RUNNER_SCRIPT_PATH, fnId, payloadJson],
-    sudo,
-  });
-
-  const stdout = await result.stdout();
-  const stderr = await result.stderr();
+  // Chunks share stdout with the function's own output; split them back out
+  let chunkParser: ChunkFrameParser | null = null;
+  // A frame that can't be read stops the runner through its own signal
+  let chunkError: SandboxProtocolError | null = null;
+  const stopRunner = new AbortController();
+  const onAbort = () => stopRunner.abort(signal!.reason);
+  if (onChunk) {
+    payload.chunkToken = randomUUID().replace(/-/g, "");
+    chunkParser = new ChunkFrameParser(payload.chunkToken);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
 
-  // Parse the result
-  try {
-    const lines = stdout.trim().split("\n");
-    const lastLine = lines[lines.length - 1];
-    const parsed = JSON.parse(lastLine);
-
-    if (parsed.__error) {
-      const error = new Error(parsed.__error);
-      if (parsed.__stack) {
-        error.stack = parsed.__stack;
+  let plainStdout = "";
+  const emitStdout = (data: string) => {
+    plainStdout += data;
+    onOutput?.("stdout", data);
+  };
+  const onStdout = chunkParser
+    ? (data: string) => {
+        // Called by the provider, where a throw would go uncaught
+        if (chunkError) return;
+        try {
+          const { output, chunks } = chunkParser!.push(data);
+          if (output) emitStdout(output);
+          for (const chunk of chunks) onChunk!(decode(chunk));
+        } catch (err) {
+          chunkError = new SandboxProtocolError(
+            `Failed to read a value yielded by the sandbox: ${errorMessage(err)}`,
+            { cause: err }
+          );
+          stopRunner.abort(chunkError);
+        }
       }
-      throw error;
-    }
+    : onOutput && emitStdout;
 
-    return parsed.__result as T;
-  } catch (e) {
-    if (e instanceof SyntaxError) {
-      throw new Error(
-        `Sandbox execution failed.\nstdout: ${stdout}\nstderr: ${stderr}`
-      );
+  // The payload goes through a file rather than argv: argv is limited by
+  // ARG_MAX and visible to every process in the sandbox
+  const { exitCode, stderr, frame, ...output } = await withLivenessCheck(
+    sandbox,
+    async () => {
+      await sandbox.writeFiles([
+        { path: payloadPath, content: Buffer.from(serialize(payload), "utf-8") },
+      ]);
+      // The worker client relays the call to the daemon and exits like
+      // the runner would, so both are invoked and read back the same way
+      const result = await sandbox.runCommand({
+        cmd: "node",
+        args: worker
+          ? [
+              sandbox.resolvePath(WORKER_CLIENT_SCRIPT_PATH),
+              fnId,
+              sandbox.resolvePath(payloadPath),
+              getBundleContent().hash,
+            ]
+          : [
+              sandbox.resolvePath(RUNNER_SCRIPT_PATH),
+              fnId,
+              sandbox.resolvePath(payloadPath),
+            ],
+        sudo,
+        onStdout,
+        onStderr: onOutput && ((data) => onOutput("stderr", data)),
+        signal: chunkParser ? stopRunner.signal : signal,
+      });
+      return { ...result, frame: await sandbox.readFile(resultPath) };
     }
-    throw e;
+  ).finally(() => signal?.removeEventListener("abort", onAbort));
+
+  // In case the provider let the runner finish anyway
+  if (chunkError) throw chunkError;
+
+  const rest = chunkParser?.flush();
+  if (rest) emitStdout(rest);
+
+  onExit?.(exitCode);
+
+  // The result comes from its own file, so stdout is free for the function
+  if (!frame) {
+    const stdout = chunkParser ? plainStdout : output.stdout;
+    throw new SandboxInfrastructureError(
+      `Sandbox execution failed: runner produced no result (exit code ${exitCode}).\n` +
+        `stdout: ${stdout}\nstderr: ${stderr}`,
+      { exitCode, stdout, stderr }
+    );
+  }
+
+  let result: RunnerResult;
+  try {
+    result = parseResultFrame(frame);
+  } catch (err) {
+    // Most likely a stale runner from an older version; force a reinstall
+    getRunnerInstalledMap().delete(sandbox);
+    throw err;
+  }
+
+  let decoded: unknown;
+  try {
+    decoded = decode(result.ok ? result.value : result.error);
+  } catch (err) {
+    throw new SandboxProtocolError(
+      `Failed to decode the sandbox ${result.ok ? "result" : "error"}: ` +
+        errorMessage(err),
+      { cause: err }
+    );
+  }
+
+  if (!result.ok) {
+    throw toRemoteError(decoded);
   }
+  return decoded as T;
 }
 
 // ============================================================================
@@ -409,12 +1767,12 @@ export async function runInSandbox<T>(
     return fn();
   }
 
-  const sandbox = await Sandbox.create({
-    timeout: options?.timeout ?? 300_000,
+  const sandbox = await createSandbox(getDefaultProvider(), {
+    timeout: options?.timeout ?? DEFAULT_SANDBOX_TIMEOUT,
   });
 
   try {
-    return await sandboxContext.run({ sandbox, sudo: true }, fn);
+    return await sandboxContext.run({ sandbox, sudo: true, worker: false }, fn);
   } finally {
     await sandbox.stop();
   }
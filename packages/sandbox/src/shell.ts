@@ -1,8 +1,9 @@
 /**
  * Safe shell command execution using template literals.
  *
- * Uses `execFile` instead of `exec` to avoid shell injection vulnerabilities.
- * Interpolated values are treated as single arguments, not shell-interpreted.
+ * Commands are started with `spawn` and no shell, so there is no shell
+ * injection: interpolated values are passed as arguments (one per value, or
+ * one per element of an array), never shell-interpreted.
  *
  * @example
  * ```typescript
@@ -10,50 +11,618 @@
  *   "use sandbox";
  *
  *   await $`git add .`;
- *   const result = await $`git commit -m ${message}`;
- *   return result;
+ *   await $`git commit -m ${message}`;
+ *   return $`git rev-parse HEAD`.text();
  * }
  * ```
  *
  * Security: Even if `message` contains `; rm -rf /`, it's treated as a literal
  * argument to `-m`, not executed as a separate command.
  */
-export async function $(
-  strings: TemplateStringsArray,
-  ...values: unknown[]
-): Promise<string> {
-  const { execFile } = await import("child_process");
-  const { promisify } = await import("util");
-  const execFileAsync = promisify(execFile);
 
-  // Parse template into [cmd, ...args]
-  const args: string[] = [];
+import type { ChildProcess } from "child_process";
+import type { FileHandle } from "fs/promises";
 
-  for (let i = 0; i < strings.length; i++) {
-    // Split static parts by whitespace into separate args
-    const staticParts = strings[i].trim().split(/\s+/).filter(Boolean);
-    args.push(...staticParts);
+/**
+ * Options for `$.with()`.
+ */
+export interface ShellCommandOptions {
+  /** Working directory of the command */
+  cwd?: string;
+  /** Environment variables added to the current environment */
+  env?: Record<string, string>;
+  /** Kill the command (SIGTERM) if it runs longer than this many milliseconds */
+  timeout?: number;
+  /** Written to the command's stdin (the first command, in a pipeline) */
+  input?: string | Uint8Array;
+  /**
+   * Write stdout to this file instead of capturing it. Relative paths are
+   * resolved against `cwd`.
+   */
+  stdout?: string;
+  /** Write stderr to this file instead of capturing it */
+  stderr?: string;
+  /**
+   * Append to the `stdout`/`stderr` files instead of overwriting them
+   * @default false
+   */
+  append?: boolean;
+  /** Resolve instead of rejecting when the command exits with a non-zero code */
+  nothrow?: boolean;
+}
+
+/**
+ * Outcome of a finished command.
+ */
+export interface ShellResult {
+  stdout: string;
+  stderr: string;
+  /** Exit code; 128 + the signal number if the command was killed */
+  exitCode: number;
+  /** stdout without its trailing newline */
+  text(): string;
+  /** stdout parsed as JSON */
+  json<T = unknown>(): T;
+  /** stdout split into lines, without the trailing empty line */
+  lines(): string[];
+}
+
+/**
+ * What `$` returns: a promise of the ShellResult, with shortcuts for reading
+ * its output.
+ */
+export interface ShellPromise extends Promise<ShellResult> {
+  text(): Promise<string>;
+  json<T = unknown>(): Promise<T>;
+  /** stdout lines: await them all, or iterate them as the command prints */
+  lines(): ShellLines;
+  /**
+   * Feed this command's stdout into `next`'s stdin. Both must be chained
+   * before they're awaited; the returned pipeline resolves with the output
+   * of the last command.
+   */
+  pipe(next: ShellPromise): ShellPromise;
+}
+
+/**
+ * `$\`...\`.lines()`: a promise of every line, and an async iterable that
+ * yields each line as soon as it's printed. Breaking out of the loop kills
+ * the command.
+ *
+ * Iterating drops each line once it's yielded, so long output isn't kept in
+ * memory. The command's result (and a ShellError's `stdout`) then only has
+ * the output that hadn't been iterated yet when the command finished.
+ */
+export interface ShellLines extends Promise<string[]>, AsyncIterable<string> {}
+
+export interface Shell {
+  (strings: TemplateStringsArray, ...values: unknown[]): ShellPromise;
+  /** The same shell, resolving instead of rejecting on a non-zero exit code */
+  readonly nothrow: Shell;
+  /** A shell with these options merged into the current ones */
+  with(options: ShellCommandOptions): Shell;
+  /**
+   * Mark trusted text to be parsed as part of the command (quotes and all)
+   * instead of being passed as a single argument. Never use it with input
+   * you don't control.
+   */
+  raw(text: string): RawShellFragment;
+}
+
+/**
+ * Thrown by `$` when a command exits with a non-zero code (unless `nothrow`)
+ * or times out.
+ */
+export class ShellError extends Error {
+  readonly command: string;
+  readonly stdout: string;
+  readonly stderr: string;
+  readonly exitCode: number;
+
+  constructor(message: string, command: string, result: ShellResult) {
+    super(message);
+    this.name = "ShellError";
+    this.command = command;
+    this.stdout = result.stdout;
+    this.stderr = result.stderr;
+    this.exitCode = result.exitCode;
+  }
+}
+
+/**
+ * Run a command.
+ *
+ * @example
+ * ```typescript
+ * const { stdout, stderr, exitCode } = await $`npm test`;
+ * const branch = await $`git branch --show-current`.text();
+ * const pkg = await $`cat package.json`.json<{ version: string }>();
+ *
+ * // Failure is expected: resolve with the exit code instead of throwing
+ * const { exitCode } = await $.nothrow`git diff --quiet`;
+ *
+ * const $repo = $.with({ cwd: '/vercel/sandbox/repo', env: { CI: '1' } });
+ * await $repo.with({ timeout: 60_000 })`npm install`;
+ * await $.with({ input: patch })`git apply`;
+ *
+ * // Quotes group static text; arrays expand into one argument per element
+ * await $`git commit -m "Update dependencies" -- ${files}`;
+ *
+ * // Trusted flags kept in a string
+ * await $`npm install ${$.raw(NPM_FLAGS)}`;
+ * ```
+ */
+export const $: Shell = createShell({});
 
-    // Interpolated values become single arguments (safe - no shell parsing)
+function createShell(options: ShellCommandOptions): Shell {
+  const shell = ((
+    strings: TemplateStringsArray,
+    ...values: unknown[]
+  ): ShellPromise => new ShellProcess([{ strings, values, options }])) as Shell;
+
+  // Defined rather than assigned, so `nothrow` stays a lazy getter
+  return Object.defineProperties(shell, {
+    nothrow: {
+      get: () => createShell({ ...options, nothrow: true }),
+    },
+    with: {
+      value: (more: ShellCommandOptions) =>
+        createShell({
+          ...options,
+          ...more,
+          env: more.env ? { ...options.env, ...more.env } : options.env,
+        }),
+    },
+    raw: {
+      value: (text: string) => new RawShellFragment(text),
+    },
+  });
+}
+
+interface Stage {
+  strings: TemplateStringsArray;
+  values: unknown[];
+  options: ShellCommandOptions;
+}
+
+class ShellProcess implements ShellPromise {
+  private running: RunningCommand | null = null;
+  private pipedInto: ShellProcess | null = null;
+
+  constructor(private readonly stages: Stage[]) {
+    // Start on the next microtask, once .pipe() calls have been chained
+    queueMicrotask(() => {
+      if (!this.pipedInto) this.start();
+    });
+  }
+
+  get [Symbol.toStringTag](): string {
+    return "ShellPromise";
+  }
+
+  /** Starts the command if it isn't running yet */
+  start(): RunningCommand {
+    if (this.pipedInto) return this.pipedInto.start();
+    this.running ??= new RunningCommand(this.stages);
+    return this.running;
+  }
+
+  pipe(next: ShellPromise): ShellPromise {
+    if (!(next instanceof ShellProcess)) {
+      throw new TypeError("pipe() takes a command created with $");
+    }
+    for (const process of [this, next]) {
+      if (process.running || process.pipedInto) {
+        throw new Error("pipe() must be chained before the command is awaited");
+      }
+    }
+    const pipeline = new ShellProcess([...this.stages, ...next.stages]);
+    // Awaiting either side now waits for the whole pipeline
+    this.pipedInto = next.pipedInto = pipeline;
+    return pipeline;
+  }
+
+  then<R1 = ShellResult, R2 = never>(
+    onFulfilled?: ((value: ShellResult) => R1 | PromiseLike<R1>) | null,
+    onRejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return this.start().result.then(onFulfilled, onRejected);
+  }
+
+  catch<R = never>(
+    onRejected?: ((reason: unknown) => R | PromiseLike<R>) | null
+  ): Promise<ShellResult | R> {
+    return this.start().result.catch(onRejected);
+  }
+
+  finally(onFinally?: (() => void) | null): Promise<ShellResult> {
+    return this.start().result.finally(onFinally);
+  }
+
+  text(): Promise<string> {
+    return this.then((r) => r.text());
+  }
+
+  json<T = unknown>(): Promise<T> {
+    return this.then((r) => r.json<T>());
+  }
+
+  lines(): ShellLines {
+    return new ShellLineReader(this);
+  }
+}
+
+class ShellLineReader implements ShellLines {
+  constructor(private readonly process: ShellProcess) {}
+
+  get [Symbol.toStringTag](): string {
+    return "ShellLines";
+  }
+
+  then<R1 = string[], R2 = never>(
+    onFulfilled?: ((value: string[]) => R1 | PromiseLike<R1>) | null,
+    onRejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return this.lines().then(onFulfilled, onRejected);
+  }
+
+  catch<R = never>(
+    onRejected?: ((reason: unknown) => R | PromiseLike<R>) | null
+  ): Promise<string[] | R> {
+    return this.lines().catch(onRejected);
+  }
+
+  finally(onFinally?: (() => void) | null): Promise<string[]> {
+    return this.lines().finally(onFinally);
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<string, void, undefined> {
+    const running = this.process.start();
+    // A failure is rethrown below, after the lines printed before it
+    running.result.catch(() => {});
+
+    let offset = 0;
+    try {
+      for (;;) {
+        const newline = running.stdout.indexOf("\n", offset);
+        if (newline !== -1) {
+          yield running.stdout.slice(offset, newline).replace(/\r$/, "");
+          offset = newline + 1;
+        } else if (running.closed) {
+          break;
+        } else {
+          running.discard(offset);
+          offset = 0;
+          await running.changed();
+        }
+      }
+      if (offset < running.stdout.length) {
+        yield running.stdout.slice(offset);
+      }
+      await running.result;
+    } finally {
+      // The loop was left early
+      if (!running.closed) running.kill();
+    }
+  }
+
+  private lines(): Promise<string[]> {
+    return this.process.then((r) => r.lines());
+  }
+}
+
+/**
+ * The processes of a started command or pipeline. Each stage's stdout is
+ * connected straight to the next one's stdin; only the last stdout is read.
+ */
+class RunningCommand {
+  readonly result: Promise<ShellResult>;
+  /** stdout of the last command so far */
+  stdout = "";
+  closed = false;
+  private readonly children: ChildProcess[] = [];
+  private waiters: (() => void)[] = [];
+
+  constructor(stages: Stage[]) {
+    this.result = this.run(stages).finally(() => {
+      this.closed = true;
+      this.notify();
+    });
+  }
+
+  /** Resolves when more stdout arrives or the command finishes */
+  changed(): Promise<void> {
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  /** Drop the first `length` characters of stdout, once they've been read */
+  discard(length: number): void {
+    this.stdout = this.stdout.slice(length);
+  }
+
+  kill(): void {
+    for (const child of this.children) {
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill("SIGTERM");
+      }
+    }
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) resolve();
+  }
+
+  private async run(stages: Stage[]): Promise<ShellResult> {
+    const { spawn } = await import("child_process");
+    const { open } = await import("fs/promises");
+    const { constants } = await import("os");
+    const { resolve } = await import("path");
+
+    const commands = stages.map((stage) =>
+      parseCommand(stage.strings, stage.values)
+    );
+    const command = commands.map((argv) => argv.join(" ")).join(" | ");
+    const last = stages.length - 1;
+    stages.forEach(({ options }, index) => {
+      if (options.input !== undefined && index > 0) {
+        throw new Error(`Only the first command of a pipeline can take input: ${command}`);
+      }
+      if (options.stdout !== undefined && index < last) {
+        throw new Error(`Only the last command of a pipeline can redirect stdout: ${command}`);
+      }
+    });
+
+    let stderr = "";
+    const exits: Promise<number>[] = [];
+    const timers: NodeJS.Timeout[] = [];
+    const timedOut = new Set<number>();
+
+    try {
+      for (const [index, [cmd, ...args]] of commands.entries()) {
+        const { cwd, env, timeout, input, append } = stages[index].options;
+        const files: FileHandle[] = [];
+        const redirect = async (path: string | undefined) => {
+          if (path === undefined) return "pipe";
+          const file = await open(resolve(cwd ?? ".", path), append ? "a" : "w");
+          files.push(file);
+          return file.fd;
+        };
+
+        let child: ChildProcess;
+        try {
+          child = spawn(cmd, args, {
+            cwd,
+            env: env ? { ...process.env, ...env } : process.env,
+            stdio: [
+              index > 0 || input !== undefined ? "pipe" : "ignore",
+              await redirect(stages[index].options.stdout),
+              await redirect(stages[index].options.stderr),
+            ],
+          });
+        } finally {
+          // The child has its own copies of the descriptors
+          await Promise.all(files.map((file) => file.close()));
+        }
+        const earlier = [...this.children];
+        this.children.push(child);
+
+        exits.push(
+          new Promise<number>((resolve, reject) => {
+            child.on("error", reject);
+            child.on("close", (code, signal) => {
+              // Nothing reads the earlier commands' output anymore. A shell
+              // would stop them with SIGPIPE on their next write.
+              for (const writer of earlier) {
+                if (writer.exitCode === null && writer.signalCode === null) {
+                  writer.kill("SIGPIPE");
+                }
+              }
+              resolve(code ?? 128 + (signal ? constants.signals[signal] : 0));
+            });
+          })
+        );
+
+        // The command may exit without reading all of its input
+        child.stdin?.on("error", () => {});
+        // Stdio pipes are socket pairs, which don't raise SIGPIPE, so the
+        // output of one command is forwarded to the next from here
+        this.children[index - 1]?.stdout!.pipe(child.stdin!);
+
+        child.stderr?.setEncoding("utf-8").on("data", (chunk) => (stderr += chunk));
+        if (index === last) {
+          child.stdout?.setEncoding("utf-8").on("data", (chunk) => {
+            this.stdout += chunk;
+            this.notify();
+          });
+        }
+        if (input !== undefined) {
+          child.stdin!.end(input);
+        }
+        if (timeout !== undefined) {
+          timers.push(
+            setTimeout(() => {
+              timedOut.add(index);
+              child.kill("SIGTERM");
+            }, timeout)
+          );
+        }
+      }
+
+      const codes = await Promise.all(exits);
+
+      // The last failure wins, as with `set -o pipefail`
+      let failed = -1;
+      codes.forEach((code, index) => {
+        // Like `yes | head -1`: an earlier command stopped by a closed pipe
+        const brokenPipe = index < last && code === 128 + constants.signals.SIGPIPE;
+        if (code !== 0 && !brokenPipe) failed = index;
+      });
+      const result = createResult(
+        this.stdout,
+        stderr,
+        failed === -1 ? 0 : codes[failed]
+      );
+
+      for (const index of timedOut) {
+        if (!stages[index].options.nothrow) {
+          throw new ShellError(
+            `Command timed out after ${stages[index].options.timeout}ms: ${command}`,
+            command,
+            result
+          );
+        }
+      }
+      if (failed !== -1 && !stages[failed].options.nothrow) {
+        throw new ShellError(
+          `Command failed with exit code ${result.exitCode}: ${command}\n${stderr}`,
+          command,
+          result
+        );
+      }
+      return result;
+    } catch (err) {
+      this.kill();
+      throw err;
+    } finally {
+      timers.forEach(clearTimeout);
+    }
+  }
+}
+
+function createResult(
+  stdout: string,
+  stderr: string,
+  exitCode: number
+): ShellResult {
+  return {
+    stdout,
+    stderr,
+    exitCode,
+    text: () => stdout.replace(/\r?\n$/, ""),
+    json: <T>() => JSON.parse(stdout) as T,
+    lines: () => {
+      const lines = stdout.split(/\r?\n/);
+      if (lines[lines.length - 1] === "") lines.pop();
+      return lines;
+    },
+  };
+}
+
+/**
+ * A trusted piece of command text, from `$.raw()`.
+ */
+export class RawShellFragment {
+  constructor(readonly text: string) {}
+}
+
+/**
+ * Parse a shell template into `[cmd, ...args]`. Shared by `$` and the
+ * host-side `sandbox.shell()`.
+ *
+ * Static text is split on whitespace, honoring single quotes, double quotes
+ * and backslash escapes. It's read as written (`strings.raw`), so JS doesn't
+ * consume the backslashes first: `a\ b` is one argument, and `\n` is an
+ * escaped `n` rather than a newline.
+ *
+ * Interpolated values are never parsed: each one is appended to the current
+ * argument as-is, and an array adds one argument per element. Only
+ * `$.raw()` fragments are parsed, as if written in the template.
+ *
+ * @throws Error if the command is empty or a quote is left open
+ */
+export function parseCommand(
+  strings: TemplateStringsArray,
+  values: unknown[]
+): [string, ...string[]] {
+  const tokenizer = new Tokenizer();
+
+  for (let i = 0; i < strings.length; i++) {
+    tokenizer.text(strings.raw[i]);
     if (i < values.length) {
-      args.push(String(values[i]));
+      tokenizer.value(values[i]);
     }
   }
 
-  const [cmd, ...rest] = args;
+  const [cmd, ...rest] = tokenizer.end();
 
   if (!cmd) {
     throw new Error("Empty command");
   }
 
-  try {
-    const { stdout, stderr } = await execFileAsync(cmd, rest);
-    return stdout || stderr || "";
-  } catch (error) {
-    const err = error as Error & { stderr?: string };
-    // Include stderr in error message for better debugging
-    const message = err.stderr || err.message;
-    throw new Error(`Command failed: ${cmd} ${rest.join(" ")}\n${message}`);
-  }
+  return [cmd, ...rest];
 }
 
+// Characters a backslash escapes inside double quotes, as in sh. A
+// backslash before a newline continues the line instead.
+const DOUBLE_QUOTE_ESCAPES = new Set(['"', "\\", "$", "`", "\n"]);
+
+class Tokenizer {
+  private readonly args: string[] = [];
+  // The argument being built; null between arguments, so `""` still yields one
+  private current: string | null = null;
+  private quote: "'" | '"' | null = null;
+
+  text(text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.quote === "'") {
+        if (ch === "'") this.quote = null;
+        else this.append(ch);
+      } else if (this.quote === '"') {
+        if (ch === '"') {
+          this.quote = null;
+        } else if (ch === "\\" && DOUBLE_QUOTE_ESCAPES.has(text[i + 1])) {
+          if (text[++i] !== "\n") this.append(text[i]);
+        } else {
+          this.append(ch);
+        }
+      } else if (/\s/.test(ch)) {
+        this.split();
+      } else if (ch === "'" || ch === '"') {
+        this.quote = ch;
+        this.append("");
+      } else if (ch === "\\" && i + 1 < text.length) {
+        if (text[++i] !== "\n") this.append(text[i]);
+      } else {
+        this.append(ch);
+      }
+    }
+  }
+
+  value(value: unknown): void {
+    if (value instanceof RawShellFragment) {
+      this.text(value.text);
+    } else if (Array.isArray(value)) {
+      // Like "$@": the first element joins the text before the array, the
+      // last the text after it
+      value.forEach((element, index) => {
+        if (index > 0) this.split();
+        this.value(element);
+      });
+    } else {
+      this.append(String(value));
+    }
+  }
+
+  end(): string[] {
+    if (this.quote) {
+      throw new Error(`Unterminated ${this.quote} in command`);
+    }
+    this.split();
+    return this.args;
+  }
+
+  private append(text: string): void {
+    this.current = (this.current ?? "") + text;
+  }
+
+  private split(): void {
+    if (this.current !== null) {
+      this.args.push(this.current);
+      this.current = null;
+    }
+  }
+}
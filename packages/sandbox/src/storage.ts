@@ -8,9 +8,41 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { join } from "path";
 
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Methods may be sync (filesystem, memory) or async (Redis, KV).
+ */
 export interface SandboxStateStorage {
-  getInstalledHash(sandboxKey: string): string | null;
-  setInstalledHash(sandboxKey: string, hash: string): void;
+  getInstalledHash(sandboxKey: string): MaybePromise<string | null>;
+  setInstalledHash(sandboxKey: string, hash: string): MaybePromise<void>;
+
+  /**
+   * Id of the sandbox currently assigned to this key, used to reattach
+   * from another process or serverless instance.
+   */
+  getSandboxId(sandboxKey: string): MaybePromise<string | null>;
+
+  /**
+   * Record the sandbox assigned to this key (null to forget it).
+   * Recording a new sandbox resets the installed hash, since it starts empty.
+   */
+  setSandboxId(sandboxKey: string, sandboxId: string | null): MaybePromise<void>;
+
+  /**
+   * Hash of the external dependencies installed for this key. Optional:
+   * without them, each process checks the dependencies once per sandbox.
+   * Like the installed hash, it must be reset when the sandbox id changes.
+   */
+  getDependenciesHash?(sandboxKey: string): MaybePromise<string | null>;
+  setDependenciesHash?(sandboxKey: string, hash: string): MaybePromise<void>;
+}
+
+interface StoredState {
+  bundleHash?: string;
+  dependenciesHash?: string;
+  sandboxId?: string;
+  updatedAt?: string;
 }
 
 /**
@@ -36,41 +68,86 @@ class FileSystemStorage implements SandboxStateStorage {
     return join(this.stateDir, `${safeKey}.json`);
   }
 
-  getInstalledHash(sandboxKey: string): string | null {
+  private read(sandboxKey: string): StoredState {
     const filePath = this.getFilePath(sandboxKey);
     try {
       if (!existsSync(filePath)) {
-        return null;
+        return {};
       }
-      const data = JSON.parse(readFileSync(filePath, "utf-8"));
-      return data.bundleHash ?? null;
+      return JSON.parse(readFileSync(filePath, "utf-8"));
     } catch {
-      return null;
+      return {};
     }
   }
 
-  setInstalledHash(sandboxKey: string, hash: string): void {
+  private write(sandboxKey: string, state: StoredState): void {
     this.ensureDir();
     const filePath = this.getFilePath(sandboxKey);
     writeFileSync(
       filePath,
-      JSON.stringify({ bundleHash: hash, updatedAt: new Date().toISOString() })
+      JSON.stringify({ ...state, updatedAt: new Date().toISOString() })
     );
   }
+
+  getInstalledHash(sandboxKey: string): string | null {
+    return this.read(sandboxKey).bundleHash ?? null;
+  }
+
+  setInstalledHash(sandboxKey: string, hash: string): void {
+    this.write(sandboxKey, { ...this.read(sandboxKey), bundleHash: hash });
+  }
+
+  getSandboxId(sandboxKey: string): string | null {
+    return this.read(sandboxKey).sandboxId ?? null;
+  }
+
+  setSandboxId(sandboxKey: string, sandboxId: string | null): void {
+    this.write(sandboxKey, sandboxId ? { sandboxId } : {});
+  }
+
+  getDependenciesHash(sandboxKey: string): string | null {
+    return this.read(sandboxKey).dependenciesHash ?? null;
+  }
+
+  setDependenciesHash(sandboxKey: string, hash: string): void {
+    this.write(sandboxKey, { ...this.read(sandboxKey), dependenciesHash: hash });
+  }
 }
 
 /**
  * In-memory storage (fallback, doesn't persist across processes).
  */
 class MemoryStorage implements SandboxStateStorage {
-  private state = new Map<string, string>();
+  private state = new Map<string, StoredState>();
 
   getInstalledHash(sandboxKey: string): string | null {
-    return this.state.get(sandboxKey) ?? null;
+    return this.state.get(sandboxKey)?.bundleHash ?? null;
   }
 
   setInstalledHash(sandboxKey: string, hash: string): void {
-    this.state.set(sandboxKey, hash);
+    this.state.set(sandboxKey, {
+      ...this.state.get(sandboxKey),
+      bundleHash: hash,
+    });
+  }
+
+  getSandboxId(sandboxKey: string): string | null {
+    return this.state.get(sandboxKey)?.sandboxId ?? null;
+  }
+
+  setSandboxId(sandboxKey: string, sandboxId: string | null): void {
+    this.state.set(sandboxKey, sandboxId ? { sandboxId } : {});
+  }
+
+  getDependenciesHash(sandboxKey: string): string | null {
+    return this.state.get(sandboxKey)?.dependenciesHash ?? null;
+  }
+
+  setDependenciesHash(sandboxKey: string, hash: string): void {
+    this.state.set(sandboxKey, {
+      ...this.state.get(sandboxKey),
+      dependenciesHash: hash,
+    });
   }
 }
 
@@ -83,12 +160,11 @@ export function getStorage(): SandboxStateStorage {
     if (isDev) {
       storageInstance = new FileSystemStorage();
     } else {
-      // In production, throw for now - user needs to configure storage
-      // TODO: Allow configuring Redis or other providers
+      // In production, the user needs to configure shared storage
       console.warn(
         "[use-sandbox] Production storage not configured. " +
-          "Bundle updates may not persist across processes. " +
-          "Consider configuring a storage provider."
+          "Bundle updates and pooled sandboxes will not be shared across processes. " +
+          "Call setStorage() with a shared store (e.g. Redis) to enable this."
       );
       storageInstance = new MemoryStorage();
     }
@@ -96,3 +172,12 @@ export function getStorage(): SandboxStateStorage {
   return storageInstance;
 }
 
+/**
+ * Replace the storage used to persist sandbox state.
+ *
+ * Use a shared store in production so that every serverless instance
+ * reattaches to the same sandbox for a given key.
+ */
+export function setStorage(storage: SandboxStateStorage): void {
+  storageInstance = storage;
+}
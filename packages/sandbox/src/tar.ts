@@ -0,0 +1,327 @@
+/**
+ * Minimal tar (ustar) writer and reader for moving directories in and out
+ * of a sandbox. The sandbox side uses the system `tar`, so archives must be
+ * readable by GNU tar, and archives GNU tar writes must be readable here.
+ *
+ * Supported: regular files, directories and symlinks; long paths through
+ * PAX (`x`) and GNU (`L`/`K`) headers. Everything else is skipped.
+ *
+ * Both directions stream: file contents pass through in chunks, so an
+ * archive is never held in memory.
+ */
+
+import { SandboxError } from "./errors.js";
+
+export interface TarEntry {
+  /** Relative path, with "/" separators and no leading "./" */
+  path: string;
+  type: "file" | "directory" | "symlink";
+  mode: number;
+  /** Content size in bytes (files only) */
+  size?: number;
+  /**
+   * File content (files only). When reading, it must be consumed before the
+   * next entry is requested, or it is skipped.
+   */
+  content?: AsyncIterable<Uint8Array>;
+  /** Link target (symlinks only) */
+  linkname?: string;
+}
+
+const BLOCK_SIZE = 512;
+
+const TYPE_FLAGS: Record<TarEntry["type"], string> = {
+  file: "0",
+  directory: "5",
+  symlink: "2",
+};
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Pack entries into an uncompressed tar archive, as it is read.
+ */
+export async function* packTar(
+  entries: AsyncIterable<TarEntry>
+): AsyncGenerator<Buffer> {
+  for await (const entry of entries) {
+    const size = entry.type === "file" ? entry.size ?? 0 : 0;
+    const name = entry.type === "directory" ? `${entry.path}/` : entry.path;
+    const linkname = entry.linkname ?? "";
+
+    // Fields that don't fit the header go into a PAX header before it
+    const pax: Record<string, string> = {};
+    if (Buffer.byteLength(name) > 100) pax.path = name;
+    if (Buffer.byteLength(linkname) > 100) pax.linkpath = linkname;
+    if (Object.keys(pax).length > 0) {
+      const body = Buffer.from(
+        Object.entries(pax)
+          .map(([key, value]) => paxRecord(key, value))
+          .join("")
+      );
+      yield header("PaxHeader", 0o644, body.length, "x", "");
+      yield pad(body);
+    }
+
+    yield header(
+      truncate(name, 100),
+      entry.mode,
+      size,
+      TYPE_FLAGS[entry.type],
+      truncate(linkname, 100)
+    );
+
+    if (entry.type === "file") {
+      // The header promised `size` bytes, so a file that changed while it
+      // was being read can't be archived
+      let written = 0;
+      for await (const chunk of entry.content ?? []) {
+        written += chunk.length;
+        if (written > size) break;
+        yield Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+      }
+      if (written !== size) {
+        throw new SandboxError(
+          `[use-sandbox] ${entry.path} changed size while it was being archived`
+        );
+      }
+      yield padding(size);
+    }
+  }
+
+  // End of archive: two zero blocks
+  yield Buffer.alloc(BLOCK_SIZE * 2);
+}
+
+function header(
+  name: string,
+  mode: number,
+  size: number,
+  typeflag: string,
+  linkname: string
+): Buffer {
+  const block = Buffer.alloc(BLOCK_SIZE);
+  block.write(name, 0, 100);
+  writeOctal(block, mode & 0o7777, 100, 8);
+  writeOctal(block, 0, 108, 8); // uid
+  writeOctal(block, 0, 116, 8); // gid
+  writeOctal(block, size, 124, 12);
+  writeOctal(block, Math.floor(Date.now() / 1000), 136, 12);
+  block.write(typeflag, 156, 1);
+  block.write(linkname, 157, 100);
+  block.write("ustar\u000000", 257, 8);
+
+  // The checksum is computed with its own field filled with spaces
+  block.fill(" ", 148, 156);
+  let checksum = 0;
+  for (const byte of block) checksum += byte;
+  writeOctal(block, checksum, 148, 7);
+  return block;
+}
+
+function writeOctal(
+  block: Buffer,
+  value: number,
+  offset: number,
+  length: number
+): void {
+  block.write(value.toString(8).padStart(length - 1, "0") + "\0", offset, length);
+}
+
+// Each record is "<length> <key>=<value>\n", where length counts itself
+function paxRecord(key: string, value: string): string {
+  const rest = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(rest);
+  while (String(length).length + Buffer.byteLength(rest) !== length) {
+    length = String(length).length + Buffer.byteLength(rest);
+  }
+  return `${length}${rest}`;
+}
+
+function pad(data: Buffer): Buffer {
+  return Buffer.concat([data, padding(data.length)]);
+}
+
+/** Zeros that fill the last block of `size` bytes of data */
+function padding(size: number): Buffer {
+  return Buffer.alloc(blocks(size) - size);
+}
+
+/** Size of `size` bytes of data rounded up to whole blocks */
+function blocks(size: number): number {
+  return Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+}
+
+function truncate(text: string, bytes: number): string {
+  const buf = Buffer.from(text);
+  return buf.length <= bytes ? text : buf.subarray(0, bytes).toString();
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Read the entries of an uncompressed tar archive as it arrives.
+ */
+export async function* unpackTar(
+  archive: AsyncIterable<Uint8Array>
+): AsyncGenerator<TarEntry> {
+  const reader = new ByteReader(archive);
+  // Overrides for the next entry, from PAX or GNU long-name headers
+  let next: { path?: string; linkname?: string } = {};
+
+  try {
+    while (true) {
+      const block = await reader.read(BLOCK_SIZE);
+      if (block.length < BLOCK_SIZE || block.every((byte) => byte === 0)) {
+        break;
+      }
+
+      const size = readNumber(block, 124, 12);
+      const typeflag = String.fromCharCode(block[156] || 0x30);
+
+      // Extension headers: small, read whole
+      if (typeflag === "x" || typeflag === "L" || typeflag === "K") {
+        const data = await reader.read(size);
+        await reader.skip(blocks(size) - size);
+        if (typeflag === "x") {
+          const pax = parsePax(data);
+          if (pax.path !== undefined) next.path = pax.path;
+          if (pax.linkpath !== undefined) next.linkname = pax.linkpath;
+        } else if (typeflag === "L") {
+          next.path = readString(data, 0, data.length);
+        } else {
+          next.linkname = readString(data, 0, data.length);
+        }
+        continue;
+      }
+
+      const prefix = readString(block, 345, 155);
+      const name = readString(block, 0, 100);
+      const path = normalize(next.path ?? (prefix ? `${prefix}/${name}` : name));
+      const mode = readNumber(block, 100, 8);
+      const linkname = next.linkname ?? readString(block, 157, 100);
+      next = {};
+
+      if (path && (typeflag === "0" || typeflag === "7")) {
+        let remaining = size;
+        const content = (async function* () {
+          while (remaining > 0) {
+            const chunk = await reader.readSome(remaining);
+            if (!chunk) {
+              throw new SandboxError(`[use-sandbox] Archive ends inside ${path}`);
+            }
+            remaining -= chunk.length;
+            yield chunk;
+          }
+        })();
+        yield { path, type: "file", mode, size, content };
+        // Skip what the consumer didn't read
+        await reader.skip(remaining + blocks(size) - size);
+        continue;
+      }
+
+      await reader.skip(blocks(size));
+      if (!path) continue;
+      if (typeflag === "5") {
+        yield { path, type: "directory", mode };
+      } else if (typeflag === "2") {
+        yield { path, type: "symlink", mode, linkname };
+      }
+      // Hard links, devices, FIFOs and global headers are skipped
+    }
+  } finally {
+    await reader.close();
+  }
+}
+
+/**
+ * Reads a byte stream in pieces of the sizes the caller asks for.
+ */
+class ByteReader {
+  private readonly iterator: AsyncIterator<Uint8Array>;
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(source: AsyncIterable<Uint8Array>) {
+    this.iterator = source[Symbol.asyncIterator]();
+  }
+
+  /** Up to `max` bytes; null at the end of the stream */
+  async readSome(max: number): Promise<Buffer | null> {
+    while (this.buffer.length === 0) {
+      const { value, done } = await this.iterator.next();
+      if (done) return null;
+      this.buffer = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    }
+    const chunk = this.buffer.subarray(0, max);
+    this.buffer = this.buffer.subarray(chunk.length);
+    return chunk;
+  }
+
+  /** `length` bytes, or fewer if the stream ends first */
+  async read(length: number): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let total = 0;
+    while (total < length) {
+      const chunk = await this.readSome(length - total);
+      if (!chunk) break;
+      chunks.push(chunk);
+      total += chunk.length;
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async skip(length: number): Promise<void> {
+    while (length > 0) {
+      const chunk = await this.readSome(length);
+      if (!chunk) return;
+      length -= chunk.length;
+    }
+  }
+
+  /** Stop reading the source, if it isn't finished */
+  async close(): Promise<void> {
+    await this.iterator.return?.();
+  }
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString("utf-8");
+}
+
+function readNumber(block: Buffer, offset: number, length: number): number {
+  // GNU tar uses base-256 for values that don't fit in octal
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = 1; i < length; i++) value = value * 256 + block[offset + i];
+    return value;
+  }
+  const text = readString(block, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function parsePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(offset, space).toString(), 10);
+    if (!(length > 0)) break;
+    const record = data.subarray(space + 1, offset + length - 1).toString("utf-8");
+    const eq = record.indexOf("=");
+    if (eq !== -1) records[record.slice(0, eq)] = record.slice(eq + 1);
+    offset += length;
+  }
+  return records;
+}
+
+// "./a/b/" -> "a/b"
+function normalize(path: string): string {
+  return path.replace(/^(\.\/)+/, "").replace(/\/+$/, "").replace(/^\.$/, "");
+}
@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import {
+  decode,
+  deserialize,
+  encode,
+  registerSerializer,
+  serialize,
+} from "../src/codec.js";
+
+/** Send a value through the wire format and back */
+function roundTrip<T>(value: T): T {
+  return deserialize(serialize(value)) as T;
+}
+
+describe("round trips", () => {
+  it("keeps plain data as plain JSON", () => {
+    const value = { a: 1, b: "two", c: [true, null, { d: 4.5 }] };
+
+    expect(encode(value)).toEqual(value);
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("keeps what JSON.stringify mangles", () => {
+    const value = roundTrip({
+      missing: undefined,
+      nan: NaN,
+      inf: -Infinity,
+      negZero: -0,
+      big: 2n ** 70n,
+      date: new Date("2024-05-06T07:08:09.010Z"),
+      invalid: new Date(NaN),
+      pattern: /a+b/gi,
+      holes: [1, , 3],
+    });
+
+    expect("missing" in value).toBe(true);
+    expect(value.missing).toBeUndefined();
+    expect(value.nan).toBeNaN();
+    expect(value.inf).toBe(-Infinity);
+    expect(Object.is(value.negZero, -0)).toBe(true);
+    expect(value.big).toBe(2n ** 70n);
+    expect(value.date).toBeInstanceOf(Date);
+    expect(value.date.toISOString()).toBe("2024-05-06T07:08:09.010Z");
+    expect(value.invalid.getTime()).toBeNaN();
+    expect(value.pattern).toEqual(/a+b/gi);
+    expect(value.holes).toEqual([1, undefined, 3]);
+  });
+
+  it("keeps Map and Set with non-string keys", () => {
+    const key = { id: 1 };
+    const value = roundTrip({
+      map: new Map<unknown, unknown>([
+        [key, "object key"],
+        [1n, new Set([1, "1"])],
+      ]),
+    });
+
+    const [[k, v], [big, set]] = [...value.map];
+    expect(k).toEqual(key);
+    expect(v).toBe("object key");
+    expect(big).toBe(1n);
+    expect(set).toEqual(new Set([1, "1"]));
+  });
+
+  it("keeps binary data and its type", () => {
+    const bytes = new Uint8Array([1, 2, 3, 255]);
+    const value = roundTrip({
+      buffer: Buffer.from("héllo"),
+      bytes,
+      // A view into the middle of a larger buffer only sends its own bytes
+      floats: new Float64Array(new Float64Array([1, 2.5, 3]).buffer, 8, 1),
+      raw: bytes.buffer,
+    });
+
+    expect(Buffer.isBuffer(value.buffer)).toBe(true);
+    expect(value.buffer.toString()).toBe("héllo");
+    expect(value.bytes).toBeInstanceOf(Uint8Array);
+    expect([...value.bytes]).toEqual([1, 2, 3, 255]);
+    expect(value.floats).toBeInstanceOf(Float64Array);
+    expect([...value.floats]).toEqual([2.5]);
+    expect(value.raw).toBeInstanceOf(ArrayBuffer);
+    expect(value.raw.byteLength).toBe(4);
+  });
+
+  it("keeps shared and circular references", () => {
+    const shared = { n: 1 };
+    const node: { self?: unknown; list: unknown[]; map: Map<string, unknown> } =
+      { list: [shared, shared], map: new Map() };
+    node.self = node;
+    node.map.set("back", node);
+    node.list.push(node.list);
+
+    const value = roundTrip(node);
+
+    expect(value.self).toBe(value);
+    expect(value.map.get("back")).toBe(value);
+    expect(value.list[0]).toBe(value.list[1]);
+    expect(value.list[2]).toBe(value.list);
+    expect(value.list[0]).toEqual({ n: 1 });
+  });
+
+  it("keeps errors with their class, cause and fields", () => {
+    const cause = new RangeError("too big");
+    const error = Object.assign(new TypeError("bad input", { cause }), {
+      code: "E_BAD",
+      details: { at: new Date(0) },
+    });
+
+    const value = roundTrip(error);
+
+    expect(value).toBeInstanceOf(TypeError);
+    expect(value.message).toBe("bad input");
+    expect(value.stack).toBe(error.stack);
+    expect(value.code).toBe("E_BAD");
+    expect(value.details.at).toEqual(new Date(0));
+    expect(value.cause).toBeInstanceOf(RangeError);
+    expect((value.cause as Error).message).toBe("too big");
+  });
+
+  it("keeps the name of errors it can't rebuild", () => {
+    class QuotaError extends Error {
+      name = "QuotaError";
+    }
+
+    const value = roundTrip(new QuotaError("over quota"));
+
+    expect(value).toBeInstanceOf(Error);
+    expect(value.name).toBe("QuotaError");
+    expect(value.message).toBe("over quota");
+  });
+
+  it("escapes objects that look like tagged nodes", () => {
+    const value = { $t: "Ref", v: 0 };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("honours toJSON and drops methods", () => {
+    const value = roundTrip({
+      money: { cents: 150, toJSON: () => "$1.50" },
+      method() {},
+    });
+
+    expect(value).toEqual({ money: "$1.50" });
+  });
+
+  it("uses registered serializers", () => {
+    class Point {
+      constructor(
+        readonly x: number,
+        readonly y: number
+      ) {}
+    }
+    registerSerializer<Point, [number, number]>({
+      name: "codec.test/Point",
+      test: (value) => value instanceof Point,
+      serialize: (point) => [point.x, point.y],
+      deserialize: ([x, y]) => new Point(x, y),
+    });
+
+    const value = roundTrip({ at: new Point(1, 2) });
+
+    expect(value.at).toBeInstanceOf(Point);
+    expect(value.at).toEqual(new Point(1, 2));
+  });
+
+  it("refuses a cycle through a custom serializer", () => {
+    const value: { toJSON(): unknown } = { toJSON: () => ({ again: value }) };
+
+    expect(() => encode(value)).toThrow(/circular reference/);
+  });
+});
+
+describe("hostile payloads", () => {
+  it("keeps __proto__ as an ordinary key", () => {
+    const payload = '{"__proto__":{"polluted":true},"a":1}';
+
+    const value = deserialize(payload) as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+    expect(Object.keys(value)).toEqual(["__proto__", "a"]);
+    expect(value.polluted).toBeUndefined();
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it("keeps __proto__ as an ordinary key in tagged objects and errors", () => {
+    const object = decode(
+      JSON.parse(
+        '{"$t":"Object","v":{"__proto__":{"$t":"Object","v":{"polluted":true}}}}'
+      )
+    ) as Record<string, unknown>;
+    const error = decode(
+      JSON.parse(
+        '{"$t":"Error","v":{"name":"Error","message":"m","props":{"__proto__":{"polluted":true}}}}'
+      )
+    ) as Error & Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(object)).toBe(Object.prototype);
+    expect(object.polluted).toBeUndefined();
+    expect(Object.keys(object)).toEqual(["__proto__"]);
+    expect(Object.getPrototypeOf(error)).toBe(Error.prototype);
+    expect(error.polluted).toBeUndefined();
+    expect(Object.keys(error)).toEqual(["__proto__"]);
+  });
+
+  it("refuses typed arrays that aren't typed arrays", () => {
+    for (const name of ["Function", "Object", "constructor", "__proto__"]) {
+      expect(() =>
+        decode({ $t: "TypedArray", v: [name, "AAAA"] })
+      ).toThrow(`Cannot decode unknown typed array "${name}"`);
+    }
+  });
+
+  it("builds a plain Error for any other error name", () => {
+    for (const name of ["Function", "Object", "AggregateError", "toString"]) {
+      const error = decode({
+        $t: "Error",
+        v: { name, message: "m", props: {} },
+      }) as Error;
+
+      expect(Object.getPrototypeOf(error)).toBe(Error.prototype);
+      expect(error.name).toBe(name);
+      expect(error.message).toBe("m");
+    }
+  });
+
+  it("refuses unknown tags and unregistered serializers", () => {
+    expect(() => decode({ $t: "Function", v: "return 1" })).toThrow(
+      'Cannot decode unknown tag "Function"'
+    );
+    expect(() => decode({ $t: "Custom", n: "codec.test/none", v: 1 })).toThrow(
+      'No serializer registered for "codec.test/none"'
+    );
+  });
+});
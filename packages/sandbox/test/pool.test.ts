@@ -0,0 +1,79 @@
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import type { SandboxInstance, SandboxProvider } from "../src/provider.js";
+import { defineSandbox, type SandboxDefinition } from "../src/runtime.js";
+import { setStorage } from "../src/storage.js";
+
+/** A provider whose sandboxes take a moment to create and run nothing */
+function fakeProvider() {
+  const created: string[] = [];
+  const provider: SandboxProvider = {
+    name: "fake",
+    async create() {
+      const id = `fake-${created.length}`;
+      created.push(id);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const sandbox: SandboxInstance = {
+        id,
+        resolvePath: (path) => path,
+        writeFiles: async () => {},
+        readFile: async () => null,
+        runCommand: async () => ({ exitCode: 0, stdout: "", stderr: "" }),
+        isAlive: async () => true,
+        stop: async () => {},
+      };
+      return sandbox;
+    },
+  };
+  return { provider, created };
+}
+
+let definition: SandboxDefinition | null = null;
+
+beforeAll(() => {
+  const ids = new Map<string, string | null>();
+  setStorage({
+    getInstalledHash: () => null,
+    setInstalledHash: () => {},
+    getSandboxId: (key) => ids.get(key) ?? null,
+    setSandboxId: (key, id) => void ids.set(key, id),
+  });
+});
+
+afterEach(async () => {
+  await definition?.stopAll();
+  definition = null;
+});
+
+describe("maxSandboxes", () => {
+  it("counts sandboxes still being created for other keys", async () => {
+    const { provider, created } = fakeProvider();
+    definition = defineSandbox({ provider, maxSandboxes: 2, eviction: "reject" });
+    const sh = (key: string) => definition!.shell(key)`true`;
+
+    const results = await Promise.allSettled(
+      ["a", "b", "c", "d"].map((key) => sh(key))
+    );
+
+    expect(results.map((r) => r.status)).toEqual([
+      "fulfilled",
+      "fulfilled",
+      "rejected",
+      "rejected",
+    ]);
+    expect(String((results[2] as PromiseRejectedResult).reason)).toContain(
+      "Sandbox pool is full (maxSandboxes: 2)"
+    );
+    expect(created).toHaveLength(2);
+    expect(definition.size).toBe(2);
+  });
+
+  it("shares one creation between concurrent runs for the same key", async () => {
+    const { provider, created } = fakeProvider();
+    definition = defineSandbox({ provider, maxSandboxes: 1, eviction: "reject" });
+    const sh = definition.shell("same");
+
+    await Promise.all([sh`true`, sh`true`, sh`true`]);
+
+    expect(created).toHaveLength(1);
+  });
+});
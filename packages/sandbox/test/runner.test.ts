@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { deserialize, encode } from "../src/codec.js";
+import { sandboxContext } from "../src/context.js";
+import { SandboxProtocolError } from "../src/errors.js";
+import type { SandboxCommandParams, SandboxInstance } from "../src/provider.js";
+import { ChunkFrameParser, RUNNER_PROTOCOL_VERSION } from "../src/runner.js";
+import { __runSandboxGenerator } from "../src/runtime.js";
+
+const TOKEN = "0123456789abcdef0123456789abcdef";
+
+/** A chunk frame, as the runner writes it to stdout */
+function frame(value: unknown, token = TOKEN): string {
+  return `\x1euse-sandbox-chunk:${token}:${JSON.stringify(encode(value))}\n`;
+}
+
+describe("ChunkFrameParser", () => {
+  it("passes output through and picks frames out of it", () => {
+    const parser = new ChunkFrameParser(TOKEN);
+
+    const { output, chunks } = parser.push(
+      `log 1\n${frame(1)}log 2\n${frame("two")}`
+    );
+
+    expect(output).toBe("log 1\nlog 2\n");
+    expect(chunks).toEqual([encode(1), encode("two")]);
+    expect(parser.flush()).toBe("");
+  });
+
+  it("holds back a frame split across pushes, wherever it's split", () => {
+    const text = `before ${frame({ a: [1, 2] })}after`;
+    for (let at = 0; at <= text.length; at++) {
+      const parser = new ChunkFrameParser(TOKEN);
+      const first = parser.push(text.slice(0, at));
+      const second = parser.push(text.slice(at));
+
+      expect(first.output + second.output + parser.flush()).toBe("before after");
+      expect([...first.chunks, ...second.chunks]).toEqual([
+        encode({ a: [1, 2] }),
+      ]);
+    }
+  });
+
+  it("treats frames with another token as output", () => {
+    const parser = new ChunkFrameParser(TOKEN);
+    const forged = frame("forged", "f".repeat(32));
+
+    const { output, chunks } = parser.push(forged);
+
+    expect(output + parser.flush()).toBe(forged);
+    expect(chunks).toEqual([]);
+  });
+
+  it("returns an unfinished frame from flush()", () => {
+    const parser = new ChunkFrameParser(TOKEN);
+    const partial = frame(1).slice(0, -2);
+
+    expect(parser.push(partial).output).toBe("");
+    expect(parser.flush()).toBe(partial);
+  });
+
+  it("throws on a malformed frame", () => {
+    const parser = new ChunkFrameParser(TOKEN);
+    expect(() =>
+      parser.push(`\x1euse-sandbox-chunk:${TOKEN}:{not json\n`)
+    ).toThrow(SyntaxError);
+  });
+});
+
+describe("streaming a generator call", () => {
+  /**
+   * A sandbox whose runner prints `stdout(token)` in the given pieces, then
+   * exits cleanly unless it's killed first.
+   */
+  function fakeSandbox(stdout: (token: string) => string[]) {
+    let payload = "";
+    const killed: unknown[] = [];
+    const sandbox: SandboxInstance = {
+      id: "fake",
+      resolvePath: (path) => path,
+      writeFiles: async ([file]) => {
+        payload = file.content.toString();
+      },
+      readFile: async () => {
+        const body = JSON.stringify({ ok: true, value: encode(undefined) });
+        return Buffer.from(
+          `use-sandbox-result/${RUNNER_PROTOCOL_VERSION} ${body.length}\n${body}`
+        );
+      },
+      runCommand: (params: SandboxCommandParams) =>
+        new Promise((resolve, reject) => {
+          const { chunkToken } = deserialize(payload) as { chunkToken: string };
+          params.signal?.addEventListener("abort", () => {
+            killed.push(params.signal!.reason);
+            reject(params.signal!.reason);
+          });
+          setTimeout(() => {
+            for (const piece of stdout(chunkToken)) params.onStdout?.(piece);
+            const exit = { exitCode: 0, stdout: "", stderr: "" };
+            setTimeout(() => resolve(exit), 10);
+          });
+        }),
+      isAlive: async () => true,
+      stop: async () => {},
+    };
+    return { sandbox, killed };
+  }
+
+  async function collect(sandbox: SandboxInstance) {
+    const values: unknown[] = [];
+    const output: string[] = [];
+    await sandboxContext.run(
+      {
+        sandbox,
+        sudo: false,
+        worker: false,
+        onOutput: (_, data) => output.push(data),
+      },
+      async () => {
+        const stream = __runSandboxGenerator({ fnId: "f", args: [] });
+        for await (const value of stream) values.push(value);
+      }
+    );
+    return { values, output: output.join("") };
+  }
+
+  it("yields values from frames split across stdout pieces", async () => {
+    const { sandbox } = fakeSandbox((token) => {
+      const text =
+        `hi\n${frame(new Date(0), token)}` +
+        `${frame(new Map([[1, 2]]), token)}bye\n`;
+      return [text.slice(0, 5), text.slice(5, 40), text.slice(40)];
+    });
+
+    const { values, output } = await collect(sandbox);
+
+    expect(values).toEqual([new Date(0), new Map([[1, 2]])]);
+    expect(output).toBe("hi\nbye\n");
+  });
+
+  it("stops the runner and rejects on a malformed frame", async () => {
+    const { sandbox, killed } = fakeSandbox((token) => [
+      `\x1euse-sandbox-chunk:${token}:{not json\n`,
+      frame("after", token),
+    ]);
+
+    const error = await collect(sandbox).catch((err) => err);
+
+    expect(error).toBeInstanceOf(SandboxProtocolError);
+    expect(error.message).toContain(
+      "Failed to read a value yielded by the sandbox"
+    );
+    expect(killed).toEqual([error]);
+  });
+});
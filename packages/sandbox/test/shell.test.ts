@@ -0,0 +1,195 @@
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { $, parseCommand } from "../src/shell.js";
+
+/** The argv a `$` template runs, without running it */
+function argv(strings: TemplateStringsArray, ...values: unknown[]) {
+  return parseCommand(strings, values);
+}
+
+describe("parseCommand", () => {
+  it("splits static text on whitespace and honors quotes", () => {
+    expect(argv`git  commit -m "Update deps" --author='A <a@b>'`).toEqual([
+      "git",
+      "commit",
+      "-m",
+      "Update deps",
+      "--author=A <a@b>",
+    ]);
+    expect(argv`echo "" ''`).toEqual(["echo", "", ""]);
+  });
+
+  it("passes each interpolated value as part of one argument", () => {
+    const message = `"; rm -rf / #`;
+    expect(argv`git commit -m ${message}`).toEqual([
+      "git",
+      "commit",
+      "-m",
+      message,
+    ]);
+    expect(argv`echo ${"$(whoami)"} ${"a b"} pre${"'x'"}post`).toEqual([
+      "echo",
+      "$(whoami)",
+      "a b",
+      "pre'x'post",
+    ]);
+    expect(argv`echo ${1} ${null} ${undefined}`).toEqual([
+      "echo",
+      "1",
+      "null",
+      "undefined",
+    ]);
+  });
+
+  it('expands arrays into one argument per element, like "$@"', () => {
+    expect(argv`git add -- ${["a b", "c;d"]}`).toEqual([
+      "git",
+      "add",
+      "--",
+      "a b",
+      "c;d",
+    ]);
+    expect(argv`echo x${["1", "2"]}y`).toEqual(["echo", "x1", "2y"]);
+    expect(argv`echo ${[]} end`).toEqual(["echo", "end"]);
+  });
+
+  it("parses $.raw() fragments as if they were in the template", () => {
+    expect(argv`npm install ${$.raw(`--save-dev "a b"`)} ${"c d"}`).toEqual([
+      "npm",
+      "install",
+      "--save-dev",
+      "a b",
+      "c d",
+    ]);
+    expect(argv`echo ${[$.raw("a b"), "c d"]}`).toEqual(["echo", "a", "b", "c d"]);
+  });
+
+  it("rejects empty commands and open quotes", () => {
+    expect(() => argv`  `).toThrow("Empty command");
+    expect(() => argv`${""}`).toThrow("Empty command");
+    expect(() => argv`echo "open`).toThrow("Unterminated \" in command");
+  });
+
+  it("reads backslashes as written, like sh", () => {
+    expect(argv`echo a\ b`).toEqual(["echo", "a b"]);
+    expect(argv`echo a\\b`).toEqual(["echo", "a\\b"]);
+    expect(argv`echo \n`).toEqual(["echo", "n"]);
+    expect(argv`echo "a\nb"`).toEqual(["echo", "a\\nb"]);
+    expect(argv`echo "a\"b\\c\$d"`).toEqual(["echo", 'a"b\\c$d']);
+    expect(argv`echo 'a\ b'`).toEqual(["echo", "a\\ b"]);
+  });
+
+  it("continues a line after a backslash", () => {
+    expect(argv`npm install \
+      --no-save ab\
+cd`).toEqual(["npm", "install", "--no-save", "abcd"]);
+  });
+
+  it("never parses backslashes in interpolated values", () => {
+    expect(argv`echo ${"a\\ b"} ${"c\nd"}`).toEqual(["echo", "a\\ b", "c\nd"]);
+  });
+});
+
+describe("$", () => {
+  it("runs commands without a shell, so values can't inject", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "shell-test-"));
+    const hostile = `x; touch ${dir}/pwned $(touch ${dir}/pwned2) \`touch ${dir}/pwned3\``;
+
+    try {
+      const { stdout } = await $`echo ${hostile}`;
+
+      expect(stdout).toBe(`${hostile}\n`);
+      expect(readdirSync(dir)).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("runs a $.raw() fragment's words as arguments, not shell syntax", async () => {
+    expect(await $`echo ${$.raw("a; echo b")}`.text()).toBe("a; echo b");
+  });
+});
+
+describe("pipelines", () => {
+  it("connects each command's stdout to the next one's stdin", async () => {
+    const result = await $`printf ${"b\na\nc\n"}`
+      .pipe($`sort`)
+      .pipe($`head -n 2`);
+    expect(result.lines()).toEqual(["a", "b"]);
+  });
+
+  it("fails with the last failing command, like set -o pipefail", async () => {
+    const error = await $`sh -c ${"exit 3"}`.pipe($`cat`).catch((err) => err);
+    expect(error).toMatchObject({ name: "ShellError", exitCode: 3 });
+
+    const { exitCode } = await $.nothrow`sh -c ${"exit 3"}`.pipe(
+      $.nothrow`sh -c ${"cat; exit 4"}`
+    );
+    expect(exitCode).toBe(4);
+  });
+
+  it("doesn't fail when a later command stops reading early", async () => {
+    expect(await $`yes`.pipe($`head -n 1`).text()).toBe("y");
+  });
+});
+
+describe("lines()", () => {
+  it("yields lines as they're printed, before the command exits", async () => {
+    const started = Date.now();
+    const seen: [string, number][] = [];
+    const script = "echo one; sleep 0.3; printf 'two\\r\\nthree'";
+    for await (const line of $`sh -c ${script}`.lines()) {
+      seen.push([line, Date.now() - started]);
+    }
+
+    expect(seen.map(([line]) => line)).toEqual(["one", "two", "three"]);
+    expect(seen[0][1]).toBeLessThan(seen[1][1] - 200);
+  });
+
+  it("kills the command when the loop is left early", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "shell-test-"));
+    try {
+      const script = `echo $$ > ${dir}/pid; echo first; exec sleep 30`;
+      const started = Date.now();
+      for await (const line of $`sh -c ${script}`.lines()) {
+        expect(line).toBe("first");
+        break;
+      }
+      expect(Date.now() - started).toBeLessThan(5_000);
+
+      const pid = Number(readFileSync(join(dir, "pid"), "utf-8"));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(() => process.kill(pid, 0)).toThrow();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rethrows a failure after the lines printed before it", async () => {
+    const lines: string[] = [];
+    const error = await (async () => {
+      for await (const line of $`sh -c ${"echo a; echo b; exit 2"}`.lines()) {
+        lines.push(line);
+      }
+    })().catch((err) => err);
+
+    expect(lines).toEqual(["a", "b"]);
+    expect(error).toMatchObject({ name: "ShellError", exitCode: 2 });
+  });
+
+  it("doesn't keep the lines it has yielded", async () => {
+    // Still running once every line has been read
+    const command = $`sh -c ${"seq 1 100000; sleep 0.3"}`;
+    let count = 0;
+    for await (const _ of command.lines()) count++;
+
+    expect(count).toBe(100000);
+    expect((await command).stdout).toBe("");
+  });
+
+  it("resolves with every line when awaited", async () => {
+    expect(await $`printf ${"a\nb\n\nc\n"}`.lines()).toEqual(["a", "b", "", "c"]);
+  });
+});
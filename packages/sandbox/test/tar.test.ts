@@ -0,0 +1,211 @@
+import { execFileSync } from "child_process";
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readlinkSync,
+  rmSync,
+  statSync,
+  symlinkSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { SandboxError } from "../src/errors.js";
+import { packTar, unpackTar, type TarEntry } from "../src/tar.js";
+
+/** A path long enough to need a PAX or GNU long-name header */
+const LONG_DIR = `deep/${"d".repeat(60)}/${"e".repeat(60)}`;
+const LONG_FILE = `${LONG_DIR}/${"f".repeat(40)}.txt`;
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "use-sandbox-tar-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function* from<T>(items: Iterable<T>): AsyncGenerator<T> {
+  yield* items;
+}
+
+/** Re-chunk a byte stream into pieces of `size` bytes */
+async function* rechunk(
+  source: AsyncIterable<Uint8Array>,
+  size: number
+): AsyncGenerator<Buffer> {
+  for await (const chunk of source) {
+    for (let i = 0; i < chunk.length; i += size) {
+      yield Buffer.from(chunk.subarray(i, i + size));
+    }
+  }
+}
+
+async function bytes(source: AsyncIterable<Uint8Array>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of source) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+function file(path: string, content: string, mode = 0o644): TarEntry {
+  const data = Buffer.from(content);
+  return { path, type: "file", mode, size: data.length, content: from([data]) };
+}
+
+type ReadEntry = Omit<TarEntry, "content"> & { text?: string };
+
+/** Read an archive, consuming each file's content as it goes */
+async function read(archive: AsyncIterable<Uint8Array>): Promise<ReadEntry[]> {
+  const entries: ReadEntry[] = [];
+  for await (const { content, ...entry } of unpackTar(archive)) {
+    entries.push(
+      content ? { ...entry, text: (await bytes(content)).toString() } : entry
+    );
+  }
+  return entries;
+}
+
+describe("packTar and unpackTar", () => {
+  it("round-trips directories, files, symlinks and long paths", async () => {
+    const archive = await bytes(
+      packTar(
+        from([
+          { path: "src", type: "directory", mode: 0o755 },
+          file("src/index.ts", "export {};\n"),
+          file("run.sh", "#!/bin/sh\n", 0o755),
+          file("empty", ""),
+          { path: "link", type: "symlink", mode: 0o777, linkname: "src/index.ts" },
+          file(LONG_FILE, "long\n"),
+          { path: "long-link", type: "symlink", mode: 0o777, linkname: LONG_FILE },
+        ])
+      )
+    );
+
+    // Small pieces split headers and contents across reads
+    const entries = await read(rechunk(from([archive]), 97));
+
+    expect(entries).toEqual([
+      { path: "src", type: "directory", mode: 0o755 },
+      { path: "src/index.ts", type: "file", mode: 0o644, size: 11, text: "export {};\n" },
+      { path: "run.sh", type: "file", mode: 0o755, size: 10, text: "#!/bin/sh\n" },
+      { path: "empty", type: "file", mode: 0o644, size: 0, text: "" },
+      { path: "link", type: "symlink", mode: 0o777, linkname: "src/index.ts" },
+      { path: LONG_FILE, type: "file", mode: 0o644, size: 5, text: "long\n" },
+      { path: "long-link", type: "symlink", mode: 0o777, linkname: LONG_FILE },
+    ]);
+  });
+
+  it("skips file contents the consumer doesn't read", async () => {
+    const archive = packTar(
+      from([file("a", "x".repeat(1000)), file("b", "second")])
+    );
+
+    const seen: string[] = [];
+    for await (const entry of unpackTar(archive)) {
+      seen.push(entry.path);
+      if (entry.path === "b") {
+        expect((await bytes(entry.content!)).toString()).toBe("second");
+      }
+    }
+
+    expect(seen).toEqual(["a", "b"]);
+  });
+
+  it("writes archives GNU tar can extract", async () => {
+    const archive = await bytes(
+      packTar(
+        from([
+          { path: "src", type: "directory", mode: 0o755 },
+          file("src/index.ts", "export {};\n"),
+          file("run.sh", "#!/bin/sh\n", 0o755),
+          { path: "link", type: "symlink", mode: 0o777, linkname: "run.sh" },
+          file(LONG_FILE, "long\n"),
+        ])
+      )
+    );
+
+    execFileSync("tar", ["-xf", "-", "-C", dir], { input: archive });
+
+    expect(readFileSync(join(dir, "src/index.ts"), "utf-8")).toBe("export {};\n");
+    expect(statSync(join(dir, "run.sh")).mode & 0o777).toBe(0o755);
+    expect(readlinkSync(join(dir, "link"))).toBe("run.sh");
+    expect(readFileSync(join(dir, LONG_FILE), "utf-8")).toBe("long\n");
+  });
+
+  it.each(["gnu", "posix"])(
+    "reads archives GNU tar writes (--format=%s)",
+    async (format) => {
+      mkdirSync(join(dir, "src"));
+      writeFileSync(join(dir, "src/index.ts"), "export {};\n");
+      mkdirSync(join(dir, LONG_DIR), { recursive: true });
+      writeFileSync(join(dir, LONG_FILE), "long\n");
+      symlinkSync(LONG_FILE, join(dir, "long-link"));
+
+      const archive = execFileSync("tar", [
+        `--format=${format}`,
+        "--sort=name",
+        "-cf",
+        "-",
+        "-C",
+        dir,
+        ".",
+      ]);
+      const entries = await read(rechunk(from([archive]), 100));
+
+      expect(
+        entries.map(({ path, type, text, linkname }) => ({
+          path,
+          type,
+          ...(text !== undefined && { text }),
+          ...(linkname !== undefined && { linkname }),
+        }))
+      ).toEqual([
+        { path: "deep", type: "directory" },
+        { path: `deep/${"d".repeat(60)}`, type: "directory" },
+        { path: LONG_DIR, type: "directory" },
+        { path: LONG_FILE, type: "file", text: "long\n" },
+        { path: "long-link", type: "symlink", linkname: LONG_FILE },
+        { path: "src", type: "directory" },
+        { path: "src/index.ts", type: "file", text: "export {};\n" },
+      ]);
+    }
+  );
+
+  it("fails when a file changes size while it's archived", async () => {
+    const grew: TarEntry = {
+      path: "log.txt",
+      type: "file",
+      mode: 0o644,
+      size: 4,
+      content: from([Buffer.from("1234"), Buffer.from("5678")]),
+    };
+    const shrank: TarEntry = { ...file("log.txt", "12"), size: 4 };
+
+    for (const entry of [grew, shrank]) {
+      const error = await bytes(packTar(from([entry]))).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SandboxError);
+      expect((error as Error).message).toBe(
+        "[use-sandbox] log.txt changed size while it was being archived"
+      );
+    }
+  });
+
+  it("fails when the archive ends inside a file", async () => {
+    const archive = await bytes(packTar(from([file("data.bin", "x".repeat(2000))])));
+
+    // The header and part of the content
+    const error = await read(from([archive.subarray(0, 1024)])).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(SandboxError);
+    expect((error as Error).message).toBe(
+      "[use-sandbox] Archive ends inside data.bin"
+    );
+  });
+});